@@ -1,38 +1,112 @@
 import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
-
-// --- Types ---
-
-type CalcMode = 'quantity' | 'area_m2' | 'area_pyeong';
-
-interface SavedItem {
-  id: number;
-  title: string;
-  specs: {
-    t: number;
-    w: number;
-    l: number;
-  };
-  inputLabel: string;
-  totalQuantity: number;
-  totalAreaM2: number;
-  totalPrice: number;
-  unitPrice: number;
-  timestamp: number;
-}
+import {
+  CalcMode,
+  GAP_PRESETS,
+  LOSS_PRESETS,
+  PRICE_BASIS_UNITS,
+  PYEONG_TO_M2,
+  PriceBasis,
+  convertPrice,
+  estimateDeck,
+  getCoverWidth,
+} from './utils/estimate';
+import { BoardDirection } from './utils/layout';
+import { LineItem, sumLineItems } from './utils/lineItems';
+import {
+  JOIST_SPACING_OPTS,
+  MATERIAL_LABELS,
+  ProfileMaterial,
+  SUBSTRUCTURE_DEFAULTS,
+  SubstructurePrices,
+  estimateSubstructure,
+  recommendedJoistSpacing,
+  squareFromArea,
+  substructureLineItems,
+} from './utils/substructure';
+import { DEFAULT_FASTENER_PRICES, FastenerPrices, estimateFasteners, fastenerLineItems } from './utils/fasteners';
+import { DEFAULT_EDGES, EdgeSettings, edgeLineItems, estimateEdges } from './utils/edges';
+import { describeDelivery, planDelivery } from './utils/delivery';
+import {
+  CatalogImportResult,
+  CatalogProduct,
+  DEFAULT_BOARD_PRICE,
+  DEFAULT_CATALOG,
+  catalogToCsv,
+  catalogToJson,
+  describeProduct,
+  findProducts,
+  getLengthOptions,
+  getThicknessOptions,
+  getWidthOptions,
+  parseCatalogCsv,
+  parseCatalogJson,
+} from './utils/catalog';
+import { CutPiece, StockOption } from './utils/cutlist';
+import { MAX_PINNED_SPECS, MIN_PINNED_SPECS, PinnedSpec, SpecComparison, compareSpecs } from './utils/compare';
+import DeckShapeEditor from './components/DeckShapeEditor';
+import CutListOptimizer from './components/CutListOptimizer';
+import QuotePdfDialog from './components/QuotePdfDialog';
+import { BusinessDetails, CalculatorInputs, Project, QuoteCustomer, SavedItem } from './types';
+import {
+  DEFAULT_BUSINESS,
+  DEFAULT_FREIGHT,
+  DEFAULT_VALID_DAYS,
+  EMPTY_CUSTOMER,
+  FREIGHT_METHOD_LABELS,
+  FreightMethod,
+  FreightSetting,
+  REGION_FREIGHT,
+  VAT_MODE_LABELS,
+  ListQuote,
+  QuoteSequence,
+  VatMode,
+  computeFreight,
+  computePriceBreakdown,
+  boardsTotalCost,
+  computeValidUntil,
+  describeBusiness,
+  describeFreight,
+  describePriceNote,
+  getItemTotal,
+  nextQuoteNumber,
+  remainingValidDays,
+  summarizeProject,
+} from './utils/quote';
+import {
+  DEFAULT_SETTINGS,
+  RETENTION_OPTIONS,
+  SCHEMA_VERSION,
+  StorageSettings,
+  daysUntilExpiry,
+  loadStoredData,
+  saveStoredData,
+} from './utils/storage';
+import {
+  CostSettings,
+  DEFAULT_COST_SETTINGS,
+  DEFAULT_DISCOUNT,
+  DISCOUNT_TYPE_LABELS,
+  DiscountSetting,
+  DiscountType,
+  PRICING_RULE_LABELS,
+  PricingRule,
+  computeDiscount,
+  computeMargin,
+  describeDiscount,
+  sellPriceFromCost,
+} from './utils/margin';
+import { DEFAULT_LABOUR, LABOUR_RATE_UNIT_LABELS, LabourRateUnit, LabourSettings, labourLineItems } from './utils/labour';
+import { mergeSavedItems, parseSavedItemsJson, savedItemsToCsv, savedItemsToJson } from './utils/backup';
+import { PdfImage } from './utils/pdf';
+import { buildQuotePdf } from './utils/quoteDocument';
+import { ShareState, buildShareUrl, decodeShareState, shareStateFromItem } from './utils/shareLink';
 
 // --- Constants ---
 
-const THICKNESS_OPTS = [19, 20, 25, 30];
-const WIDTH_OPTS = [95, 100, 120, 140, 150];
-const LENGTH_OPTS = [2000, 2400, 2800, 3000];
+const CATALOG_STORAGE_KEY = 'deck-calculator-catalog';
 
-const PYEONG_TO_M2 = 3.305785;
-
-const STORAGE_KEY = 'deck-calculator-saved-items';
-const STORAGE_DURATION_DAYS = 7;
-const STORAGE_DURATION_MS = STORAGE_DURATION_DAYS * 24 * 60 * 60 * 1000;
-
-const LOGO_URL = "https://i.ibb.co/PZZSchRn/Logo.png";
+// Company logo from public/, precached by the service worker with the rest of the build
+const LOGO_URL = "/logo.png";
 
 // --- Icons ---
 
@@ -60,6 +134,36 @@ const SaveIcon = () => (
   </svg>
 );
 
+const PlusIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+  </svg>
+);
+
+const PencilIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+  </svg>
+);
+
+const PinIcon = ({ filled = false }: { filled?: boolean }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill={filled ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+  </svg>
+);
+
+const DocumentIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+  </svg>
+);
+
+const LinkIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+  </svg>
+);
+
 const DownloadIcon = () => (
   <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
     <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
@@ -92,26 +196,57 @@ const getDisplayValue = (val: string) => {
   return formattedInteger + decimalPart;
 };
 
-const loadHtml2Canvas = (): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    if (window.html2canvas) {
-      resolve();
-      return;
-    }
-    const script = document.createElement('script');
-    script.src = 'https://cdnjs.cloudflare.com/ajax/libs/html2canvas/1.4.1/html2canvas.min.js';
-    script.async = true;
-    script.onload = () => resolve();
-    script.onerror = () => reject(new Error('html2canvas failed to load'));
-    document.body.appendChild(script);
+// Bundled as its own chunk, so it is only downloaded (and precached) once rather than on every page load
+const loadHtml2Canvas = async () => (await import('html2canvas')).default;
+
+const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = URL.createObjectURL(blob);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+// Logo re-encoded as JPEG for the PDF quote; null if it cannot be loaded
+const loadLogoForPdf = (): Promise<PdfImage | null> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d')!;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0);
+        const base64 = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+        const data = Uint8Array.from(atob(base64), (ch) => ch.charCodeAt(0));
+        resolve({ data, width: canvas.width, height: canvas.height });
+      } catch {
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = LOGO_URL;
   });
 };
 
-declare global {
-  interface Window {
-    html2canvas: any;
+const loadCatalog = (): CatalogProduct[] => {
+  try {
+    const stored = localStorage.getItem(CATALOG_STORAGE_KEY);
+    if (stored) {
+      const { products } = parseCatalogJson(stored);
+      if (products.length > 0) return products;
+    }
+  } catch (e) {
+    console.error("Failed to parse catalog", e);
   }
-}
+  return DEFAULT_CATALOG;
+};
 
 // --- Helper Components ---
 
@@ -244,26 +379,142 @@ const ResultRow = React.memo(({ label, value, subValue, highlight = false }: { l
   </div>
 ));
 
+const NumberField = React.memo(({
+  label,
+  value,
+  onChange,
+  unit
+}: {
+  label: string;
+  value: number;
+  onChange: (val: number) => void;
+  unit: string;
+}) => (
+  <div>
+    <label className="block text-sm font-bold text-slate-500 mb-1">{label}</label>
+    <div className="relative">
+      <input
+        type="text"
+        inputMode="numeric"
+        value={value === 0 ? '' : value.toLocaleString()}
+        onChange={(e) => {
+          const rawValue = e.target.value.replace(/,/g, '');
+          const val = parseInt(rawValue, 10);
+          if (!rawValue) onChange(0);
+          else if (!isNaN(val)) onChange(val);
+        }}
+        placeholder="0"
+        className="block w-full rounded-md border border-[#004225]/20 bg-white py-2 pl-2 pr-9 text-base font-bold text-slate-700 text-right focus:border-[#004225] focus:outline-none no-spinner"
+      />
+      <span className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-slate-400 pointer-events-none">{unit}</span>
+    </div>
+  </div>
+));
+
+// Retention status shown next to the date on saved quotes and projects
+const ExpiryBadge = React.memo(({ pinned, daysLeft }: { pinned?: boolean, daysLeft: number | null }) => {
+  if (pinned) {
+    return <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-bold bg-[#004225]/10 text-[#004225]">고정됨</span>;
+  }
+  if (daysLeft === null) return null;
+  return (
+    <span className={`ml-2 px-1.5 py-0.5 rounded text-xs font-bold ${daysLeft <= 3 ? 'bg-red-50 text-red-500' : 'bg-slate-100 text-slate-400'}`}>
+      {daysLeft === 0 ? '오늘 만료' : `${daysLeft}일 후 만료`}
+    </span>
+  );
+});
+
 // Optimized SavedItem Component to prevent re-renders when Calculator inputs change
 const SavedItemCard = React.memo(({ 
   item, 
+  isEditing = false,
+  expiresInDays = null,
   onDownload, 
-  onDelete 
+  onDelete,
+  onOpen,
+  onRename,
+  onTogglePin,
+  onExportPdf,
+  onCopyLink,
+  onAddToProject
 }: { 
   item: SavedItem, 
+  isEditing?: boolean,
+  expiresInDays?: number | null,
   onDownload: (id: number, title: string) => void, 
-  onDelete: (id: number) => void 
+  onDelete: (id: number) => void,
+  onOpen?: (item: SavedItem) => void,
+  onRename?: (id: number, title: string) => void,
+  onTogglePin?: (id: number) => void,
+  onExportPdf?: (item: SavedItem) => void,
+  onCopyLink?: (item: SavedItem) => void,
+  onAddToProject?: (item: SavedItem) => void
 }) => {
+  const [draftTitle, setDraftTitle] = useState<string | null>(null);
+
+  const commitTitle = () => {
+    if (draftTitle === null) return;
+    const title = draftTitle.trim();
+    if (title && title !== item.title) onRename?.(item.id, title);
+    setDraftTitle(null);
+  };
+
   return (
     <div 
       id={`saved-item-${item.id}`}
-      className="bg-white rounded-lg shadow-sm p-5 relative overflow-hidden"
+      className={`bg-white rounded-lg shadow-sm p-5 relative overflow-hidden ${isEditing ? 'ring-2 ring-[#004225]' : ''}`}
     >
       {/* Straight Color Bar */}
       <div className="absolute left-0 top-0 bottom-0 w-[6px] bg-[#004225] z-10"></div>
 
       {/* Buttons */}
       <div className="absolute top-3 right-3 flex items-center gap-2" data-html2canvas-ignore="true">
+        {/* Items saved before the form inputs were stored cannot be loaded back */}
+        {onTogglePin && (
+          <button 
+            onClick={() => onTogglePin(item.id)}
+            className={`${item.pinned ? 'text-[#004225]' : 'text-slate-300'} hover:text-[#004225] transition-colors p-1`}
+            title={item.pinned ? '고정 해제' : '고정 (만료되지 않음)'}
+          >
+            <PinIcon filled={item.pinned} />
+          </button>
+        )}
+        {onOpen && item.inputs && (
+          <button 
+            onClick={() => onOpen(item)}
+            className="text-slate-300 hover:text-[#004225] transition-colors p-1"
+            title="계산기로 불러오기"
+          >
+            <PencilIcon />
+          </button>
+        )}
+        {onAddToProject && (
+          <button 
+            onClick={() => onAddToProject(item)}
+            className="text-slate-300 hover:text-[#004225] transition-colors p-1"
+            title="열린 프로젝트에 추가"
+          >
+            <PlusIcon />
+          </button>
+        )}
+        {onCopyLink && (
+          <button 
+            onClick={() => onCopyLink(item)}
+            className="text-slate-300 hover:text-[#004225] transition-colors p-1"
+            title="링크 복사"
+          >
+            <LinkIcon />
+          </button>
+        )}
+        {onExportPdf && (
+          <button 
+            onClick={() => onExportPdf(item)}
+            className="text-slate-300 hover:text-[#004225] transition-colors p-1"
+            title="PDF 견적서"
+          >
+            <DocumentIcon />
+          </button>
+        )}
         <button 
           onClick={() => onDownload(item.id, item.title)}
           className="text-slate-300 hover:text-[#004225] transition-colors p-1"
@@ -281,29 +532,398 @@ const SavedItemCard = React.memo(({
       </div>
       
       {/* Header */}
-      <div className="mb-3 pr-20 pl-3">
-         <div className="text-2xl font-bold text-slate-900">{item.title}</div>
-         <div className="text-base text-slate-400">{formatDate(item.timestamp)}</div>
+      <div className="mb-3 pr-52 pl-3">
+         {draftTitle !== null ? (
+           <input
+             type="text"
+             autoFocus
+             value={draftTitle}
+             onChange={(e) => setDraftTitle(e.target.value)}
+             onBlur={commitTitle}
+             onKeyDown={(e) => {
+               if (e.key === 'Enter') commitTitle();
+               if (e.key === 'Escape') setDraftTitle(null);
+             }}
+             className="w-full rounded-md border border-[#004225]/30 px-2 py-0.5 text-2xl font-bold text-slate-900 focus:border-[#004225] focus:outline-none"
+           />
+         ) : (
+           <div
+             onClick={onRename ? () => setDraftTitle(item.title) : undefined}
+             className={`text-2xl font-bold text-slate-900 ${onRename ? 'cursor-text' : ''}`}
+             title={onRename ? '클릭하여 제목 변경' : undefined}
+           >
+             {item.title}
+           </div>
+         )}
+         <div className="text-base text-slate-400">
+           {item.quoteNumber && <span className="mr-2 font-bold text-slate-500">No. {item.quoteNumber}</span>}
+           {formatDate(item.timestamp)}
+           <span data-html2canvas-ignore="true"><ExpiryBadge pinned={item.pinned} daysLeft={expiresInDays} /></span>
+         </div>
+         {item.validUntil && (
+           <div className="text-sm text-slate-400">유효기간 {formatDate(item.validUntil).slice(0, 10)}까지</div>
+         )}
       </div>
 
+      {/* Customer */}
+      {item.customer && (item.customer.name || item.customer.site || item.customer.contact) && (
+        <div className="pl-3 mb-3 flex flex-col gap-0.5 text-base text-slate-600">
+          {item.customer.name && <div className="text-lg font-bold text-slate-800">{item.customer.name} 귀하</div>}
+          {item.customer.site && <div>현장: {item.customer.site}</div>}
+          {item.customer.contact && <div>연락처: {item.customer.contact}</div>}
+        </div>
+      )}
+
       {/* Body: Specs */}
       <div className="pl-3">
         <div className="flex flex-col gap-1.5 text-lg text-slate-600">
+          {item.productName && <div>제품: {item.productName}</div>}
           <div>규격: 두께 {item.specs.t}㎜ · 폭 {item.specs.w}㎜ · 길이 {item.specs.l}㎜</div>
-          <div>단가: {item.unitPrice.toLocaleString()}원</div>
-          <div>수량: {item.totalQuantity.toLocaleString()}장</div>
+          {(item.gapMm || item.overlapMm) ? (
+            <div>
+              시공: 줄눈 {item.gapMm ?? 0}㎜
+              {item.overlapMm ? ` · 겹침 ${item.overlapMm}㎜` : ''}
+            </div>
+          ) : null}
+          <div>
+            단가: {item.priceBasis && item.basisPrice !== undefined
+              ? <>{PRICE_BASIS_UNITS[item.priceBasis]}당 {item.basisPrice.toLocaleString()}원 <span className="text-base text-slate-400">(1장 {item.unitPrice.toLocaleString()}원)</span></>
+              : `${item.unitPrice.toLocaleString()}원`}
+          </div>
+          {item.budget !== undefined && (
+            <div>
+              예산: {item.budget.toLocaleString()}원
+              <span className="text-base text-slate-400"> (남는 금액 {(item.budgetLeftover ?? 0).toLocaleString()}원)</span>
+            </div>
+          )}
+          <div>
+            수량: {item.totalQuantity.toLocaleString()}장
+            {item.lossPercent && item.netQuantity !== undefined ? (
+              <span className="text-base text-slate-400"> (순소요 {item.netQuantity.toLocaleString()}장 + 할증 {item.lossPercent}%)</span>
+            ) : null}
+          </div>
           <div>면적(평): {(item.totalAreaM2 / PYEONG_TO_M2).toFixed(1)}평</div>
           <div>면적(m²): {item.totalAreaM2.toFixed(2)}m²</div>
+          {item.delivery && <div>배송: {describeDelivery(item.delivery)}</div>}
         </div>
+        {((item.lineItems && item.lineItems.length > 0) || !!item.discount) && (
+          <div className="mt-2 pt-2 border-t border-slate-100 flex flex-col gap-1 text-base text-slate-600">
+            <div className="flex justify-between">
+              <span>데크재</span>
+              <span>{item.totalPrice.toLocaleString()}원</span>
+            </div>
+            {!!item.discount && (
+              <div className="flex justify-between gap-2">
+                <span>할인 <span className="text-slate-400">{item.discountLabel}</span></span>
+                <span className="whitespace-nowrap">-{item.discount.toLocaleString()}원</span>
+              </div>
+            )}
+            {item.lineItems.map((line, i) => (
+              <div key={i} className="flex justify-between gap-2">
+                <span>{line.label} <span className="text-slate-400">{line.detail}</span></span>
+                <span className="whitespace-nowrap">{line.amount.toLocaleString()}원</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
+      {/* Labour */}
+      {item.labourItems && item.labourItems.length > 0 && (
+        <div className="pl-3 mt-2 pt-2 border-t border-slate-100 flex flex-col gap-1 text-base text-slate-600">
+          {item.labourItems.map((line, i) => (
+            <div key={i} className="flex justify-between gap-2">
+              <span>{line.label} <span className="text-slate-400">{line.detail}</span></span>
+              <span className="whitespace-nowrap">{line.amount.toLocaleString()}원</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-bold text-slate-700">
+            <span>자재비 / 시공비</span>
+            <span>
+              {(getItemTotal(item) - sumLineItems(item.labourItems)).toLocaleString()}원 / {sumLineItems(item.labourItems).toLocaleString()}원
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* VAT & Freight */}
+      {item.pricing && (item.pricing.freight > 0 || item.vatMode !== 'separate') && (
+        <div className="pl-3 mt-2 pt-2 border-t border-slate-100 flex flex-col gap-1 text-base text-slate-600">
+          {item.pricing.freight > 0 && (
+            <div className="flex justify-between">
+              <span>운임 <span className="text-slate-400">{item.freightLabel}</span></span>
+              <span>{item.pricing.freight.toLocaleString()}원</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>공급가액</span>
+            <span>{item.pricing.supply.toLocaleString()}원</span>
+          </div>
+          {item.vatMode !== 'separate' && (
+            <div className="flex justify-between">
+              <span>부가세 (10%)</span>
+              <span>{item.pricing.vat.toLocaleString()}원</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Cost & gross profit: internal, left out of exported images */}
+      {item.margin && (
+        <div data-html2canvas-ignore="true" className="pl-3 mt-2 pt-2 border-t border-dashed border-amber-300 flex justify-between text-sm text-amber-700">
+          <span>원가 {item.margin.cost.toLocaleString()}원</span>
+          <span className="font-bold">
+            매출이익 {item.margin.grossProfit.toLocaleString()}원
+            {item.margin.marginPercent !== null ? ` (${item.margin.marginPercent.toFixed(1)}%)` : ''}
+          </span>
+        </div>
+      )}
+
       {/* Total Price */}
       <div className="text-right mt-3 pr-2">
         <div className="text-3xl font-bold text-[#004225] whitespace-nowrap">
-          총액 {item.totalPrice.toLocaleString()}원
+          총액 {(item.pricing?.total ?? getItemTotal(item)).toLocaleString()}원
+        </div>
+        <div className="text-sm text-slate-400 mt-1 font-medium">
+          {describePriceNote(item.vatMode ?? 'separate', item.pricing?.freight ?? 0)}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="mt-3 pt-3 border-t border-slate-100 bg-white pl-3 pr-2 flex justify-between items-end">
+          <div className="max-w-[60%] flex flex-col gap-1">
+            {item.business && (
+              <div className="text-xs text-slate-500 leading-tight break-keep">{describeBusiness(item.business)}</div>
+            )}
+            <div className="text-xs text-slate-300 leading-tight break-keep">
+              ※ 본 견적은 참고용이며 실제 시공 비용은 현장 조건에 따라 달라질 수 있습니다.
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <img 
+              src={LOGO_URL}
+              alt="Logo 데크센터" 
+              className="h-7 w-auto object-contain" 
+              loading="eager"
+            />
+            <div className="text-xs text-slate-400">https://deckctr.com</div>
+          </div>
+      </div>
+    </div>
+  );
+});
+
+// Pinned specs side by side against the current target
+const SpecComparisonTable = React.memo(({
+  comparison,
+  onRemove
+}: {
+  comparison: SpecComparison,
+  onRemove: (id: number) => void
+}) => {
+  const rows: { label: string; render: (c: SpecComparison['columns'][number]) => string }[] = [
+    { label: '단가', render: (c) => `${c.pin.unitPrice.toLocaleString()}원` },
+    { label: '수량', render: (c) => c.estimate.isValid ? `${c.estimate.totalQuantity.toLocaleString()}장` : '-' },
+    { label: '실면적', render: (c) => c.estimate.isValid ? `${formatNumber(c.estimate.totalArea, 2)}m²` : '-' },
+    { label: '로스', render: (c) => c.estimate.isValid ? `${c.wastePercent.toFixed(1)}%` : '-' },
+    { label: 'm²당', render: (c) => `${Math.round(c.estimate.pricePerM2).toLocaleString()}원` },
+    { label: '평당', render: (c) => `${Math.round(c.estimate.pricePerPyeong).toLocaleString()}원` },
+    { label: '총액', render: (c) => c.estimate.isValid ? `${c.estimate.totalPrice.toLocaleString()}원` : '-' },
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-slate-600">
+        <thead>
+          <tr>
+            <th></th>
+            {comparison.columns.map((c) => (
+              <th
+                key={c.pin.id}
+                className={`px-1 py-1 text-right align-top ${c.pin.id === comparison.cheapestId ? 'bg-[#004225]/10 text-[#004225]' : ''}`}
+              >
+                <div className="flex items-start justify-end gap-0.5">
+                  <span className="font-bold break-keep">{c.pin.label}</span>
+                  <button onClick={() => onRemove(c.pin.id)} className="text-slate-300 hover:text-red-500" title="비교에서 제거">
+                    <XMarkIcon />
+                  </button>
+                </div>
+                <div className="text-xs font-medium">
+                  {c.pin.id === comparison.cheapestId && '최저가 '}
+                  {c.pin.id === comparison.leastWasteId && '최소로스'}
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-t border-slate-100">
+              <td className="py-1.5 text-slate-400 whitespace-nowrap">{row.label}</td>
+              {comparison.columns.map((c) => (
+                <td
+                  key={c.pin.id}
+                  className={`px-1 py-1.5 text-right whitespace-nowrap ${c.pin.id === comparison.cheapestId ? 'bg-[#004225]/10 font-bold text-[#004225]' : ''}`}
+                >
+                  {row.render(c)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+});
+
+// Quote made of several saved calculations, exported as one image like SavedItemCard
+const ProjectCard = React.memo(({
+  project,
+  isActive,
+  expiresInDays,
+  onToggleActive,
+  onRemoveLine,
+  onTogglePin,
+  onExportPdf,
+  onDownload,
+  onDelete
+}: {
+  project: Project,
+  isActive: boolean,
+  expiresInDays: number | null,
+  onToggleActive: (id: number) => void,
+  onRemoveLine: (projectId: number, itemId: number) => void,
+  onTogglePin: (id: number) => void,
+  onExportPdf: (project: Project) => void,
+  onDownload: (id: number, title: string, elementPrefix: string) => void,
+  onDelete: (id: number) => void
+}) => {
+  const summary = summarizeProject(project.items);
+
+  return (
+    <div
+      id={`project-${project.id}`}
+      className={`bg-white rounded-lg shadow-sm p-5 relative overflow-hidden ${isActive ? 'ring-2 ring-[#004225]' : ''}`}
+    >
+      <div className="absolute left-0 top-0 bottom-0 w-[6px] bg-[#004225] z-10"></div>
+
+      <div className="absolute top-3 right-3 flex items-center gap-2" data-html2canvas-ignore="true">
+        <button
+          onClick={() => onTogglePin(project.id)}
+          className={`${project.pinned ? 'text-[#004225]' : 'text-slate-300'} hover:text-[#004225] transition-colors p-1`}
+          title={project.pinned ? '고정 해제' : '고정 (만료되지 않음)'}
+        >
+          <PinIcon filled={project.pinned} />
+        </button>
+        <button
+          onClick={() => onExportPdf(project)}
+          disabled={project.items.length === 0}
+          className="text-slate-300 hover:text-[#004225] transition-colors p-1 disabled:opacity-40"
+          title="PDF 견적서"
+        >
+          <DocumentIcon />
+        </button>
+        <button
+          onClick={() => onDownload(project.id, project.title, 'project')}
+          className="text-slate-300 hover:text-[#004225] transition-colors p-1"
+          title="이미지로 저장/공유"
+        >
+          <DownloadIcon />
+        </button>
+        <button
+          onClick={() => onDelete(project.id)}
+          className="text-slate-300 hover:text-red-500 transition-colors p-1"
+          title="삭제"
+        >
+          <TrashIcon />
+        </button>
+      </div>
+
+      {/* Header */}
+      <div className="mb-3 pr-36 pl-3">
+        <div className="text-2xl font-bold text-slate-900">{project.title}</div>
+        <div className="text-base text-slate-400">
+          {formatDate(project.timestamp)} · {project.items.length}개 항목
+          <span data-html2canvas-ignore="true"><ExpiryBadge pinned={project.pinned} daysLeft={expiresInDays} /></span>
+        </div>
+        <button
+          onClick={() => onToggleActive(project.id)}
+          className={`mt-1 text-sm font-bold underline ${isActive ? 'text-[#004225]' : 'text-slate-400 hover:text-[#004225]'}`}
+          data-html2canvas-ignore="true"
+        >
+          {isActive ? '편집 중 (닫기)' : '열어서 항목 추가'}
+        </button>
+      </div>
+
+      {/* Lines */}
+      <div className="pl-3 space-y-2">
+        {project.items.length === 0 && (
+          <div className="text-base text-slate-400">계산 결과를 저장하거나 저장된 견적의 + 버튼으로 항목을 추가하세요.</div>
+        )}
+        {project.items.map((item, index) => (
+          <div key={item.id} className="flex justify-between gap-2 border-b border-slate-100 pb-2">
+            <div className="text-base text-slate-600">
+              <div className="font-bold text-slate-800">{index + 1}. {item.title}</div>
+              <div>{item.specs.t}T {item.specs.w}×{item.specs.l} · {item.totalQuantity.toLocaleString()}장 · {item.totalAreaM2.toFixed(2)}m²</div>
+            </div>
+            <div className="flex items-start gap-1">
+              <span className="text-lg font-bold text-slate-800 whitespace-nowrap">{(item.pricing?.total ?? getItemTotal(item)).toLocaleString()}원</span>
+              <button
+                onClick={() => onRemoveLine(project.id, item.id)}
+                className="text-slate-300 hover:text-red-500 transition-colors"
+                title="항목 삭제"
+                data-html2canvas-ignore="true"
+              >
+                <XMarkIcon />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Totals */}
+      <div className="pl-3 pr-2 mt-3 space-y-1 text-lg text-slate-600">
+        <div className="flex justify-between">
+          <span>소계 (데크재 {summary.totalQuantity.toLocaleString()}장 · {summary.totalAreaM2.toFixed(2)}m²)</span>
+          <span>{summary.subtotal.toLocaleString()}원</span>
+        </div>
+        {summary.extrasTotal > 0 && (
+          <div className="flex justify-between">
+            <span>하부구조 · 부자재</span>
+            <span>{summary.extrasTotal.toLocaleString()}원</span>
+          </div>
+        )}
+        {summary.labourTotal > 0 && (
+          <div className="flex justify-between">
+            <span>시공비</span>
+            <span>{summary.labourTotal.toLocaleString()}원</span>
+          </div>
+        )}
+        {summary.freightTotal > 0 && (
+          <div className="flex justify-between">
+            <span>운임</span>
+            <span>{summary.freightTotal.toLocaleString()}원</span>
+          </div>
+        )}
+        {(summary.freightTotal > 0 || summary.vatTotal > 0) && (
+          <>
+            <div className="flex justify-between">
+              <span>공급가액</span>
+              <span>{summary.supplyTotal.toLocaleString()}원</span>
+            </div>
+            <div className="flex justify-between">
+              <span>부가세 (10%)</span>
+              <span>{summary.vatTotal.toLocaleString()}원</span>
+            </div>
+          </>
+        )}
+      </div>
+      <div className="text-right mt-3 pr-2">
+        <div className="text-3xl font-bold text-[#004225] whitespace-nowrap">
+          합계 {summary.grandTotal.toLocaleString()}원
         </div>
         <div className="text-sm text-slate-400 mt-1 font-medium">
-          (부가세 및 운임 별도)
+          {describePriceNote(summary.vatExcluded ? 'separate' : 'add', summary.freightTotal)}
         </div>
       </div>
 
@@ -328,21 +948,123 @@ const SavedItemCard = React.memo(({
 
 const App: React.FC = () => {
   // --- State ---
-  const [customTitle, setCustomTitle] = useState('');
+
+  // Form values from a shared link, read once; missing or invalid fields keep their defaults
+  const [sharedLink] = useState(() => decodeShareState(window.location.search));
+  const shared = sharedLink?.state ?? {};
+  const [shareNotice, setShareNotice] = useState<string | null>(() =>
+    sharedLink?.invalid.length
+      ? `링크의 일부 값(${sharedLink.invalid.join(', ')})이 올바르지 않아 기본값을 사용했습니다.`
+      : null
+  );
+
+  const [customTitle, setCustomTitle] = useState(shared.customTitle ?? '');
   
   // Dimensions
-  const [thickness, setThickness] = useState<number>(25);
-  const [width, setWidth] = useState<number>(150);
-  const [length, setLength] = useState<number>(3000);
+  const [thickness, setThickness] = useState<number>(shared.thickness ?? 25);
+  const [width, setWidth] = useState<number>(shared.width ?? 150);
+  const [length, setLength] = useState<number>(shared.length ?? 3000);
+
+  // Product Catalog
+  const [catalog, setCatalog] = useState<CatalogProduct[]>(loadCatalog);
+  // Preselecting the product for a linked price stops the catalog effect from replacing that price
+  const [selectedSku, setSelectedSku] = useState<string | null>(() =>
+    shared.unitPrice !== undefined ? findProducts(catalog, { t: thickness, w: width, l: length })[0]?.sku ?? null : null
+  );
+  const [isCatalogOpen, setIsCatalogOpen] = useState(false);
+  const [catalogMessage, setCatalogMessage] = useState<{ text: string; errors: string[] } | null>(null);
 
   // Price & Input
-  const [unitPrice, setUnitPrice] = useState<number>(15000);
-  const [mode, setMode] = useState<CalcMode>('quantity');
-  const [inputValue, setInputValue] = useState<string>('');
+  // Entered per `priceBasis` unit; calculations use the per-board price derived from it
+  const [unitPrice, setUnitPrice] = useState<number>(shared.unitPrice ?? DEFAULT_BOARD_PRICE);
+  const [priceBasis, setPriceBasis] = useState<PriceBasis>(shared.priceBasis ?? 'board');
+  const [mode, setMode] = useState<CalcMode>(shared.mode ?? 'quantity');
+  const [inputValue, setInputValue] = useState<string>(shared.inputValue ?? '');
+  const [budgetIncludesExtras, setBudgetIncludesExtras] = useState(false);
+  const [lossPercent, setLossPercent] = useState<number>(0);
+
+  // Board gap (줄눈) and tongue/groove overlap, in mm
+  const [gapMm, setGapMm] = useState<number>(0);
+  const [overlapMm, setOverlapMm] = useState<number>(0);
+
+  // Layout mode (mm)
+  const [deckWidth, setDeckWidth] = useState<string>(shared.deckWidth ?? '');
+  const [deckDepth, setDeckDepth] = useState<string>(shared.deckDepth ?? '');
+  const [boardDirection, setBoardDirection] = useState<BoardDirection>(shared.boardDirection ?? 'width');
+
+  // Shape editor (area modes)
+  const [isShapeEditorOpen, setIsShapeEditorOpen] = useState(false);
+  const [outlinePerimeterM, setOutlinePerimeterM] = useState<number | null>(null);
+
+  // Substructure
+  const [includeSubstructure, setIncludeSubstructure] = useState(false);
+  const [profileMaterial, setProfileMaterial] = useState<ProfileMaterial>('steel');
+  const [joistSpacing, setJoistSpacing] = useState<number>(() => recommendedJoistSpacing(thickness));
+  const [bearerSpacing, setBearerSpacing] = useState<number>(1200);
+  const [postSpacing, setPostSpacing] = useState<number>(1200);
+  const [subPrices, setSubPrices] = useState<SubstructurePrices>(SUBSTRUCTURE_DEFAULTS.steel);
+
+  // Spec comparison
+  const [pinnedSpecs, setPinnedSpecs] = useState<PinnedSpec[]>([]);
+
+  // Cut-list optimizer
+  const [isCutListOpen, setIsCutListOpen] = useState(false);
+
+  // Fasteners
+  const [includeFasteners, setIncludeFasteners] = useState(false);
+  const [fastenerPrices, setFastenerPrices] = useState<FastenerPrices>(DEFAULT_FASTENER_PRICES);
+
+  // Fascia, stairs & corner trims
+  const [includeEdges, setIncludeEdges] = useState(false);
+  const [edges, setEdges] = useState<EdgeSettings>(DEFAULT_EDGES);
+
+  // VAT & Freight
+  const [vatMode, setVatMode] = useState<VatMode>('separate');
+  const [freight, setFreight] = useState<FreightSetting>(DEFAULT_FREIGHT);
+
+  // Labour & extra work
+  const [includeLabour, setIncludeLabour] = useState(false);
+  const [labour, setLabour] = useState<LabourSettings>(DEFAULT_LABOUR);
+
+  // Cost, margin & discounts (deck boards only)
+  const [costSettings, setCostSettings] = useState<CostSettings>(DEFAULT_COST_SETTINGS);
+  const [discount, setDiscount] = useState<DiscountSetting>(DEFAULT_DISCOUNT);
+
+  // Customer & validity
+  const [customer, setCustomer] = useState<QuoteCustomer>(EMPTY_CUSTOMER);
+  const [validDays, setValidDays] = useState(DEFAULT_VALID_DAYS);
+
+  const isAreaMode = mode === 'area_m2' || mode === 'area_pyeong';
 
   // Saved Items - Initialized empty for performance
   const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
   const [isSavedItemsLoaded, setIsSavedItemsLoaded] = useState(false);
+  const [storageSettings, setStorageSettings] = useState<StorageSettings>(DEFAULT_SETTINGS);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [business, setBusiness] = useState<BusinessDetails>(DEFAULT_BUSINESS);
+  const [quoteSequence, setQuoteSequence] = useState<QuoteSequence>({ period: '', last: 0 });
+  const [listQuote, setListQuote] = useState<ListQuote | null>(null);
+  const [isBusinessOpen, setIsBusinessOpen] = useState(false);
+  // `quoteNumber` is the number the quotation already has; `onNumbered` stores a newly allocated one
+  const [pdfTarget, setPdfTarget] = useState<{
+    title: string;
+    items: SavedItem[];
+    quoteNumber?: string;
+    onNumbered: (quoteNumber: string) => void;
+  } | null>(null);
+  const [backupMessage, setBackupMessage] = useState<{ text: string; errors: string[] } | null>(null);
+
+  // Projects
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<number | null>(null);
+  const [newProjectTitle, setNewProjectTitle] = useState('');
+
+  // Connectivity
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  // Short confirmation such as "링크를 복사했습니다."
+  const [toast, setToast] = useState<string | null>(null);
 
   // Refs
   const savedListRef = useRef<HTMLDivElement>(null);
@@ -355,91 +1077,296 @@ const App: React.FC = () => {
     img.src = LOGO_URL;
   }, []);
 
-  // Lazy Load Saved Items
+  // Drop the link parameters once applied, so a reload does not undo later edits
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed: SavedItem[] = JSON.parse(stored);
-        const now = Date.now();
-        const validItems = parsed
-          .filter(item => (now - item.timestamp) < STORAGE_DURATION_MS)
-          .sort((a, b) => b.timestamp - a.timestamp);
-        setSavedItems(validItems);
-      }
-    } catch (e) {
-      console.error("Failed to parse saved items", e);
-    } finally {
-      setIsSavedItemsLoaded(true);
-    }
+    if (sharedLink) window.history.replaceState(null, '', window.location.pathname);
+  }, [sharedLink]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), 2000);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  // Track connectivity for the offline indicator
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Lazy Load Saved Items (expired ones are dropped on load)
+  useEffect(() => {
+    loadStoredData()
+      .then(data => {
+        setStorageSettings(data.settings);
+        setBusiness(data.business);
+        setQuoteSequence(data.quoteSequence);
+        setListQuote(data.listQuote);
+        setSavedItems([...data.savedItems].sort((a, b) => b.timestamp - a.timestamp));
+        setProjects(data.projects);
+        setIsSavedItemsLoaded(true);
+      })
+      .catch(e => {
+        // Leave persistence off so unreadable data is not overwritten
+        console.error("Failed to load saved items", e);
+        setStorageError('저장된 견적을 불러오지 못했습니다. 이번 작업 내용은 저장되지 않습니다.');
+      });
   }, []);
 
-  // Save to LocalStorage (only after initial load is complete)
+  // Persist saved items (only after initial load is complete)
   useEffect(() => {
     if (isSavedItemsLoaded) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(savedItems));
+      saveStoredData({ version: SCHEMA_VERSION, settings: storageSettings, business, quoteSequence, listQuote, savedItems, projects })
+        .then(() => setStorageError(null))
+        .catch(e => {
+          console.error("Failed to save items", e);
+          setStorageError('견적을 저장하지 못했습니다. 저장 공간을 확인해 주세요.');
+        });
     }
-  }, [savedItems, isSavedItemsLoaded]);
+  }, [savedItems, projects, storageSettings, business, quoteSequence, listQuote, isSavedItemsLoaded]);
+
+  // Persist the branch price list
+  useEffect(() => {
+    localStorage.setItem(CATALOG_STORAGE_KEY, catalogToJson(catalog));
+  }, [catalog]);
+
+  // Pick the catalog product for the chosen spec and fill in its price.
+  // The price stays editable; it is only replaced when the product changes.
+  useEffect(() => {
+    const matches = findProducts(catalog, { t: thickness, w: width, l: length });
+    if (matches.length === 0) {
+      setSelectedSku(null);
+      return;
+    }
+    if (matches.some(p => p.sku === selectedSku)) return;
+    setSelectedSku(matches[0].sku);
+    setUnitPrice(Math.round(convertPrice(matches[0].price, 'board', priceBasis, matches[0])));
+  }, [catalog, thickness, width, length, selectedSku, priceBasis]);
 
   // --- Calculations ---
 
-  const results = useMemo(() => {
-    const areaPerBoardM2 = (width * length) / 1_000_000;
-    const pricePerM2 = unitPrice > 0 && areaPerBoardM2 > 0 ? unitPrice / areaPerBoardM2 : 0;
-    const pricePerPyeong = pricePerM2 * PYEONG_TO_M2;
+  // The price in the selected unit is typed in, or set from the purchase cost by the pricing rule
+  const costPrice = sellPriceFromCost(costSettings);
+  const quotedPrice = costPrice === null ? unitPrice : Math.round(convertPrice(costPrice, 'board', priceBasis, { t: thickness, w: width, l: length }));
+  const boardPrice = convertPrice(quotedPrice, priceBasis, 'board', { t: thickness, w: width, l: length });
+
+  // In budget mode the discounts come off the boards, and freight and VAT can be paid out of the budget as well
+  const budgetCost = useMemo(() => {
+    const discountFor = (count: number, sales: number) => computeDiscount(discount, count, sales).discount;
+    return budgetIncludesExtras
+      ? (count: number, price: number) => boardsTotalCost(count, price, freight, vatMode, discountFor)
+      : (count: number, price: number) => {
+          const sales = Math.round(count * price);
+          return sales - discountFor(count, sales);
+        };
+  }, [budgetIncludesExtras, freight, vatMode, discount]);
+  // Volume tiers make the boards cheaper once a tier is reached
+  const budgetBreakpoints = useMemo(
+    () => discount.useVolumeTiers ? discount.volumeTiers.map(tier => tier.minBoards) : undefined,
+    [discount]
+  );
 
+  const results = useMemo(() => {
     const inputNum = parseFloat(inputValue);
+    const layout = { widthMm: parseFloat(deckWidth), depthMm: parseFloat(deckDepth), direction: boardDirection };
+    const estimate = estimateDeck({ t: thickness, w: width, l: length }, boardPrice, mode, inputNum, { lossPercent, gapMm, overlapMm, layout, budgetCost, budgetBreakpoints });
 
-    if (!inputValue || isNaN(inputNum) || inputNum <= 0 || width <= 0 || length <= 0) {
-      return {
-        isValid: false,
-        areaPerBoardM2,
-        pricePerM2,
-        pricePerPyeong,
-        totalQuantity: 0,
-        totalArea: 0,
-        totalPrice: 0,
-        inputLabel: ''
-      };
+    let inputLabel = '';
+    if (estimate.isValid && mode === 'layout') {
+      inputLabel = `가로 ${layout.widthMm.toLocaleString()} × 세로 ${layout.depthMm.toLocaleString()}mm`;
+    } else if (estimate.isValid && mode === 'budget') {
+      inputLabel = `예산 ${inputNum.toLocaleString()}원`;
+    } else if (estimate.isValid) {
+      const unitLabel = mode === 'quantity' ? '장' : mode === 'area_m2' ? 'm²' : '평';
+      inputLabel = `${inputNum.toLocaleString()}${unitLabel}`;
     }
 
-    let totalQuantity = 0;
-    let totalArea = 0;
-    let totalPrice = 0;
-    let inputLabel = '';
+    return { ...estimate, inputLabel };
+  }, [thickness, width, length, boardPrice, mode, inputValue, lossPercent, gapMm, overlapMm, deckWidth, deckDepth, boardDirection, budgetCost, budgetBreakpoints]);
+
+  const substructure = useMemo(() => {
+    if (!includeSubstructure || !results.isValid) return null;
+    // Without real dimensions the frame is estimated for a square deck of the same area
+    const dims = results.layout
+      ? { widthMm: parseFloat(deckWidth), depthMm: parseFloat(deckDepth) }
+      : squareFromArea(results.deckAreaM2);
+    const stockLength = SUBSTRUCTURE_DEFAULTS[profileMaterial].stockLength;
+    const estimate = estimateSubstructure({
+      ...dims,
+      direction: boardDirection,
+      joistSpacing,
+      bearerSpacing,
+      postSpacing,
+      stockLength,
+      prices: subPrices,
+    });
+    return estimate ? { estimate, lines: substructureLineItems(estimate, profileMaterial, stockLength) } : null;
+  }, [includeSubstructure, results, deckWidth, deckDepth, boardDirection, profileMaterial, joistSpacing, bearerSpacing, postSpacing, subPrices]);
+
+  const fasteners = useMemo(() => {
+    if (!includeFasteners || !results.isValid) return null;
+    const runLength = results.layout ? results.layout.runLength : squareFromArea(results.deckAreaM2).widthMm;
+    const estimate = estimateFasteners({
+      boardCount: results.totalQuantity,
+      boardLength: length,
+      joistSpacing,
+      runLength,
+      prices: fastenerPrices,
+    });
+    return estimate ? { estimate, lines: fastenerLineItems(estimate) } : null;
+  }, [includeFasteners, results, length, joistSpacing, fastenerPrices]);
+
+  const edgeEstimate = useMemo(() => {
+    if (!includeEdges || !results.isValid) return null;
+    // Layout mode knows the real outline; a drawn shape gives its perimeter; otherwise a square of the same area
+    const square = squareFromArea(results.deckAreaM2);
+    const perimeterMm = results.layout
+      ? 2 * (parseFloat(deckWidth) + parseFloat(deckDepth))
+      : outlinePerimeterM !== null
+        ? outlinePerimeterM * 1000
+        : 2 * (square.widthMm + square.depthMm);
+    const estimate = estimateEdges({ ...edges, spec: { t: thickness, w: width, l: length }, boardPrice, perimeterMm });
+    return estimate ? { estimate, lines: edgeLineItems(estimate) } : null;
+  }, [includeEdges, results, deckWidth, deckDepth, outlinePerimeterM, edges, thickness, width, length, boardPrice]);
+
+  const lineItems = useMemo<LineItem[]>(
+    () => [...(substructure?.lines ?? []), ...(fasteners?.lines ?? []), ...(edgeEstimate?.lines ?? [])],
+    [substructure, fasteners, edgeEstimate]
+  );
+  const margin = useMemo(
+    () => computeMargin({
+      boardCount: results.totalQuantity,
+      sales: results.totalPrice,
+      costPerBoard: costSettings.costPerBoard,
+      vatMode,
+      discount,
+    }),
+    [results, costSettings.costPerBoard, vatMode, discount]
+  );
+  const grandTotal = results.totalPrice - margin.discount + sumLineItems(lineItems);
 
-    if (mode === 'quantity') {
-      totalQuantity = inputNum;
-      totalArea = inputNum * areaPerBoardM2;
-      totalPrice = inputNum * unitPrice;
-      inputLabel = `${inputNum.toLocaleString()}장`;
-    } else if (mode === 'area_m2') {
-      totalQuantity = Math.ceil(inputNum / areaPerBoardM2);
-      totalArea = totalQuantity * areaPerBoardM2;
-      totalPrice = totalQuantity * unitPrice;
-      inputLabel = `${inputNum.toLocaleString()}m²`;
-    } else if (mode === 'area_pyeong') {
-      const targetM2 = inputNum * PYEONG_TO_M2;
-      totalQuantity = Math.ceil(targetM2 / areaPerBoardM2);
-      totalArea = totalQuantity * areaPerBoardM2;
-      totalPrice = totalQuantity * unitPrice;
-      inputLabel = `${inputNum.toLocaleString()}평`;
-    }
+  const labourLines = useMemo<LineItem[]>(
+    () => includeLabour && results.isValid ? labourLineItems(labour, results.deckAreaM2) : [],
+    [includeLabour, labour, results]
+  );
+  const labourTotal = sumLineItems(labourLines);
 
-    return {
-      isValid: true,
-      areaPerBoardM2,
-      pricePerM2,
-      pricePerPyeong,
-      totalQuantity,
-      totalArea,
-      totalPrice,
-      inputLabel
+  const pricing = useMemo(
+    () => computePriceBreakdown(grandTotal, results.isValid ? computeFreight(freight, results.totalQuantity) : 0, vatMode, labourTotal),
+    [grandTotal, results, freight, vatMode, labourTotal]
+  );
+  const showPricing = pricing.freight > 0 || vatMode !== 'separate';
+
+  const activeProject = projects.find(project => project.id === activeProjectId) ?? null;
+  const editingItem = savedItems.find(item => item.id === editingId) ?? null;
+
+  const thicknessOptions = useMemo(() => getThicknessOptions(catalog), [catalog]);
+  const widthOptions = useMemo(() => getWidthOptions(catalog, thickness), [catalog, thickness]);
+  const lengthOptions = useMemo(() => getLengthOptions(catalog, thickness, width), [catalog, thickness, width]);
+  const specProducts = useMemo(
+    () => findProducts(catalog, { t: thickness, w: width, l: length }),
+    [catalog, thickness, width, length]
+  );
+  const selectedProduct = specProducts.find(p => p.sku === selectedSku) ?? null;
+
+  // Fascia and stair boards travel with the deck boards
+  const delivery = useMemo(
+    () => results.isValid
+      ? planDelivery({ t: thickness, w: width, l: length }, results.totalQuantity + (edgeEstimate?.estimate.boards ?? 0), selectedProduct?.profile)
+      : null,
+    [results, edgeEstimate, thickness, width, length, selectedProduct]
+  );
+
+  // The current length uses the entered unit price; other lengths come from the same product line,
+  // else pro rata from the unit price
+  const stockOptions = useMemo<StockOption[]>(() => lengthOptions.map(l => {
+    if (l === length) return { length: l, price: Math.round(boardPrice) };
+    const sameLength = catalog.filter(p => p.t === thickness && p.w === width && p.l === l);
+    const product = sameLength.find(p => selectedProduct && p.name === selectedProduct.name && p.profile === selectedProduct.profile)
+      ?? sameLength[0];
+    return { length: l, price: product ? product.price : Math.round(boardPrice * l / length) };
+  }), [lengthOptions, catalog, thickness, width, length, selectedProduct, boardPrice]);
+
+  // Pins are compared on deck area; a board count only means something for the spec it was entered for
+  const comparison = useMemo(() => {
+    if (pinnedSpecs.length < MIN_PINNED_SPECS) return null;
+    const options = {
+      lossPercent: isAreaMode ? lossPercent : 0,
+      gapMm,
+      overlapMm,
+      layout: { widthMm: parseFloat(deckWidth), depthMm: parseFloat(deckDepth), direction: boardDirection },
+      budgetCost,
+      budgetBreakpoints,
     };
-  }, [width, length, unitPrice, mode, inputValue]);
+    return mode === 'quantity'
+      ? compareSpecs(pinnedSpecs, 'area_m2', results.deckAreaM2, options)
+      : compareSpecs(pinnedSpecs, mode, parseFloat(inputValue), options);
+  }, [pinnedSpecs, mode, inputValue, results.deckAreaM2, isAreaMode, lossPercent, gapMm, overlapMm, deckWidth, deckDepth, boardDirection, budgetCost, budgetBreakpoints]);
+
+  const layoutPieces = useMemo<CutPiece[] | null>(
+    () => results.layout ? [{ length: results.layout.runLength, count: results.layout.rows }] : null,
+    [results.layout]
+  );
 
   // --- Handlers ---
 
+  // Picking a catalog thickness or width snaps the narrower dimensions to combinations that are sold.
+  // Joist centres follow the thickness until the user picks one.
+  const handleThicknessChange = useCallback((t: number) => {
+    setThickness(t);
+    setJoistSpacing(recommendedJoistSpacing(t));
+    if (!catalog.some(p => p.t === t)) return;
+    const widths = getWidthOptions(catalog, t);
+    const nextWidth = widths.includes(width) ? width : widths[0];
+    setWidth(nextWidth);
+    const lengths = getLengthOptions(catalog, t, nextWidth);
+    if (!lengths.includes(length)) setLength(lengths[0]);
+  }, [catalog, width, length]);
+
+  const handleWidthChange = useCallback((w: number) => {
+    setWidth(w);
+    if (!catalog.some(p => p.t === thickness && p.w === w)) return;
+    const lengths = getLengthOptions(catalog, thickness, w);
+    if (!lengths.includes(length)) setLength(lengths[0]);
+  }, [catalog, thickness, length]);
+
+  const handleProductSelect = useCallback((sku: string) => {
+    const product = catalog.find(p => p.sku === sku);
+    if (!product) return;
+    setSelectedSku(sku);
+    setUnitPrice(Math.round(convertPrice(product.price, 'board', priceBasis, product)));
+  }, [catalog, priceBasis]);
+
+  const handleCatalogImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const result: CatalogImportResult = file.name.toLowerCase().endsWith('.json')
+      ? parseCatalogJson(text)
+      : parseCatalogCsv(text);
+
+    if (result.products.length === 0) {
+      setCatalogMessage({ text: '가져올 수 있는 제품이 없습니다.', errors: result.errors });
+      return;
+    }
+    setCatalog(result.products);
+    setSelectedSku(null);
+    setCatalogMessage({ text: `제품 ${result.products.length}개를 불러왔습니다.`, errors: result.errors });
+  };
+
+  const handleCatalogReset = () => {
+    setCatalog(DEFAULT_CATALOG);
+    setSelectedSku(null);
+    setCatalogMessage({ text: '기본 제품 목록으로 되돌렸습니다.', errors: [] });
+  };
+
   const moveCursorToEnd = useCallback((e: React.SyntheticEvent<HTMLInputElement>) => {
     const target = e.target as HTMLInputElement;
     const val = target.value;
@@ -462,57 +1389,381 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Re-expresses the entered price in the new unit, so the per-board price stays the same
+  const handlePriceBasisChange = (basis: PriceBasis) => {
+    setUnitPrice(Math.round(convertPrice(unitPrice, priceBasis, basis, { t: thickness, w: width, l: length })));
+    setPriceBasis(basis);
+  };
+
   const handleInputValueChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const rawVal = e.target.value.replace(/,/g, '');
     if (rawVal === '' || /^\d*\.?\d*$/.test(rawVal)) {
       setInputValue(rawVal);
+      setOutlinePerimeterM(null);
     }
   }, []);
 
-  const handleSave = () => {
-    if (!results.isValid) return;
+  const handleShapeApply = useCallback((areaM2: number, perimeterM: number) => {
+    setMode('area_m2');
+    setInputValue(String(Math.round(areaM2 * 100) / 100));
+    setOutlinePerimeterM(perimeterM);
+    setIsShapeEditorOpen(false);
+  }, []);
+
+  const handleDeckWidthChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const rawVal = e.target.value.replace(/,/g, '');
+    if (rawVal === '' || /^\d*\.?\d*$/.test(rawVal)) {
+      setDeckWidth(rawVal);
+    }
+  }, []);
+
+  const handleDeckDepthChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const rawVal = e.target.value.replace(/,/g, '');
+    if (rawVal === '' || /^\d*\.?\d*$/.test(rawVal)) {
+      setDeckDepth(rawVal);
+    }
+  }, []);
+
+  const handleLossChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const val = parseFloat(e.target.value);
+    setLossPercent(isNaN(val) || val < 0 ? 0 : val);
+  }, []);
+
+  const handleMaterialChange = useCallback((material: ProfileMaterial) => {
+    setProfileMaterial(material);
+    setSubPrices(SUBSTRUCTURE_DEFAULTS[material]);
+  }, []);
 
+  const captureInputs = (): CalculatorInputs => ({
+    customTitle,
+    thickness,
+    width,
+    length,
+    sku: selectedSku,
+    unitPrice: quotedPrice,
+    priceBasis,
+    mode,
+    inputValue,
+    lossPercent,
+    gapMm,
+    overlapMm,
+    deckWidth,
+    deckDepth,
+    boardDirection,
+    includeSubstructure,
+    profileMaterial,
+    joistSpacing,
+    bearerSpacing,
+    postSpacing,
+    subPrices,
+    includeFasteners,
+    fastenerPrices,
+    includeEdges,
+    edges,
+    vatMode,
+    freight,
+    customer,
+    validDays,
+    budgetIncludesExtras,
+    costSettings,
+    discount,
+    includeLabour,
+    labour,
+  });
+
+  // Hands out the next quote number and advances the stored sequence. None until the
+  // stored sequence has loaded, since numbering from zero would repeat earlier quotes.
+  const allocateQuoteNumber = (): string | undefined => {
+    if (!isSavedItemsLoaded) return undefined;
+    const next = nextQuoteNumber(quoteSequence);
+    setQuoteSequence(next.sequence);
+    return next.quoteNumber;
+  };
+
+  const buildSavedItem = (quoteNumber: string | undefined): SavedItem => {
+    const now = Date.now();
     const autoTitle = `${thickness}T ${width}x${length}`;
     const finalTitle = customTitle.trim() || autoTitle;
 
-    const newItem: SavedItem = {
-      id: Date.now(),
+    return {
+      id: now,
       title: finalTitle,
       specs: { t: thickness, w: width, l: length },
+      productName: selectedProduct
+        ? describeProduct(selectedProduct, ' ')
+        : undefined,
       inputLabel: results.inputLabel,
+      lossPercent: isAreaMode ? lossPercent : 0,
+      gapMm,
+      overlapMm,
+      netQuantity: results.netQuantity,
       totalQuantity: results.totalQuantity,
       totalAreaM2: results.totalArea,
       totalPrice: results.totalPrice,
-      unitPrice: unitPrice,
-      timestamp: Date.now(),
+      budget: mode === 'budget' ? parseFloat(inputValue) : undefined,
+      budgetLeftover: mode === 'budget' ? results.budgetLeftover : undefined,
+      discount: margin.discount > 0 ? margin.discount : undefined,
+      discountLabel: margin.discount > 0 ? describeDiscount(discount, margin.volumePercent) : undefined,
+      margin: margin.grossProfit !== null
+        ? { cost: margin.cost, grossProfit: margin.grossProfit, marginPercent: margin.marginPercent }
+        : undefined,
+      lineItems: lineItems.length > 0 ? lineItems : undefined,
+      labourItems: labourLines.length > 0 ? labourLines : undefined,
+      delivery: delivery ?? undefined,
+      vatMode,
+      freightLabel: describeFreight(freight),
+      pricing,
+      unitPrice: Math.round(boardPrice),
+      priceBasis: priceBasis === 'board' ? undefined : priceBasis,
+      basisPrice: priceBasis === 'board' ? undefined : quotedPrice,
+      timestamp: now,
+      inputs: captureInputs(),
+      quoteNumber,
+      customer: { name: customer.name.trim(), site: customer.site.trim(), contact: customer.contact.trim() },
+      validUntil: computeValidUntil(now, validDays || DEFAULT_VALID_DAYS),
+      business,
     };
+  };
+
+  const handlePinSpec = () => {
+    const label = `${thickness}T ${width}×${length}`;
+    setPinnedSpecs(prev => prev.length >= MAX_PINNED_SPECS ? prev : [
+      ...prev,
+      { id: Date.now(), label, spec: { t: thickness, w: width, l: length }, unitPrice: Math.round(boardPrice) },
+    ]);
+  };
 
+  const handleUnpinSpec = useCallback((id: number) => {
+    setPinnedSpecs(prev => prev.filter(pin => pin.id !== id));
+  }, []);
+
+  const handleSave = () => {
+    if (!results.isValid) return;
+
+    const newItem = buildSavedItem(allocateQuoteNumber());
     setSavedItems(prev => [newItem, ...prev]);
+    // A copy saved while editing becomes the item being edited
+    setEditingId(prev => (prev === null ? null : newItem.id));
     
     setTimeout(() => {
       savedListRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
     }, 100);
   };
 
-  // Memoized handlers for SavedItemCard to prevent re-creation on every render
-  const handleDelete = useCallback((id: number) => {
-    setSavedItems(prev => prev.filter(item => item.id !== id));
+  // Replaces the reopened item, keeping its id and quote number and moving it to the top of the list
+  const handleOverwrite = () => {
+    if (!results.isValid || editingId === null) return;
+    const updated = { ...buildSavedItem(editingItem?.quoteNumber ?? allocateQuoteNumber()), id: editingId };
+    setSavedItems(prev => [updated, ...prev.filter(item => item.id !== editingId)]);
+  };
+
+  // Loads a saved item back into the form. The SKU is kept only if the catalog still sells it,
+  // so the catalog effect does not replace the saved unit price.
+  const handleOpenSaved = useCallback((item: SavedItem) => {
+    const inputs = item.inputs;
+    if (!inputs) return;
+    const matches = findProducts(catalog, { t: inputs.thickness, w: inputs.width, l: inputs.length });
+    const sku = matches.some(p => p.sku === inputs.sku) ? inputs.sku : matches[0]?.sku ?? null;
+
+    setCustomTitle(inputs.customTitle);
+    setThickness(inputs.thickness);
+    setWidth(inputs.width);
+    setLength(inputs.length);
+    setSelectedSku(sku);
+    setUnitPrice(inputs.unitPrice);
+    setPriceBasis(inputs.priceBasis ?? 'board');
+    setMode(inputs.mode);
+    setInputValue(inputs.inputValue);
+    setOutlinePerimeterM(null);
+    setLossPercent(inputs.lossPercent);
+    setGapMm(inputs.gapMm);
+    setOverlapMm(inputs.overlapMm);
+    setDeckWidth(inputs.deckWidth);
+    setDeckDepth(inputs.deckDepth);
+    setBoardDirection(inputs.boardDirection);
+    setIncludeSubstructure(inputs.includeSubstructure);
+    setProfileMaterial(inputs.profileMaterial);
+    setJoistSpacing(inputs.joistSpacing);
+    setBearerSpacing(inputs.bearerSpacing);
+    setPostSpacing(inputs.postSpacing);
+    setSubPrices(inputs.subPrices);
+    setIncludeFasteners(inputs.includeFasteners);
+    setFastenerPrices(inputs.fastenerPrices);
+    setIncludeEdges(inputs.includeEdges ?? false);
+    setEdges(inputs.edges ?? DEFAULT_EDGES);
+    setVatMode(inputs.vatMode);
+    setFreight(inputs.freight);
+    setCustomer(inputs.customer ?? item.customer ?? EMPTY_CUSTOMER);
+    setValidDays(inputs.validDays ?? DEFAULT_VALID_DAYS);
+    setBudgetIncludesExtras(inputs.budgetIncludesExtras ?? false);
+    setCostSettings(inputs.costSettings ?? DEFAULT_COST_SETTINGS);
+    setDiscount(inputs.discount ?? DEFAULT_DISCOUNT);
+    setIncludeLabour(inputs.includeLabour ?? false);
+    setLabour(inputs.labour ?? DEFAULT_LABOUR);
+    setEditingId(item.id);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [catalog]);
+
+  const handleBackupImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseSavedItemsJson(await file.text());
+    if (result.items.length === 0) {
+      setBackupMessage({ text: '가져올 수 있는 견적이 없습니다.', errors: result.errors });
+      return;
+    }
+    const merged = mergeSavedItems(savedItems, result.items);
+    setSavedItems(merged.items);
+    setBackupMessage({
+      text: `견적 ${merged.added}개를 가져왔습니다.${merged.duplicates ? ` (이미 있는 ${merged.duplicates}개 제외)` : ''}`,
+      errors: result.errors,
+    });
+  };
+
+  const handleCopyLink = useCallback(async (state: ShareState) => {
+    const url = buildShareUrl(window.location.href, state);
+    try {
+      await navigator.clipboard.writeText(url);
+      setToast('링크를 복사했습니다.');
+    } catch {
+      // Clipboard access can be refused (e.g. outside HTTPS); let the user copy it by hand
+      window.prompt('아래 링크를 복사하세요.', url);
+    }
+  }, []);
+
+  const handleCopyItemLink = useCallback((item: SavedItem) => {
+    handleCopyLink(shareStateFromItem(item));
+  }, [handleCopyLink]);
+
+  const handlePdfItem = useCallback((item: SavedItem) => {
+    setPdfTarget({
+      title: item.title,
+      items: [item],
+      quoteNumber: item.quoteNumber,
+      onNumbered: (quoteNumber) => setSavedItems(prev => prev.map(i => i.id === item.id ? { ...i, quoteNumber } : i)),
+    });
+  }, []);
+
+  const handlePdfProject = useCallback((project: Project) => {
+    setPdfTarget({
+      title: project.title,
+      items: project.items,
+      quoteNumber: project.quoteNumber,
+      onNumbered: (quoteNumber) => setProjects(prev => prev.map(p => p.id === project.id ? { ...p, quoteNumber } : p)),
+    });
+  }, []);
+
+  const handlePdfAll = () => {
+    const itemIds = savedItems.map(item => item.id).sort((a, b) => a - b);
+    const sameList = !!listQuote && listQuote.itemIds.length === itemIds.length && listQuote.itemIds.every((id, i) => id === itemIds[i]);
+    setPdfTarget({
+      title: '저장된 견적 전체',
+      items: savedItems,
+      quoteNumber: sameList ? listQuote.quoteNumber : undefined,
+      onNumbered: (quoteNumber) => setListQuote({ itemIds, quoteNumber }),
+    });
+  };
+
+  // A quotation keeps its number across re-exports; one is allocated and stored the first time
+  const handleGeneratePdf = async (pdfCustomer: QuoteCustomer, pdfValidDays: number) => {
+    if (!pdfTarget) return;
+    const issuedAt = Date.now();
+    const single = pdfTarget.items.length === 1 ? pdfTarget.items[0] : null;
+    const quoteNumber = pdfTarget.quoteNumber ?? allocateQuoteNumber();
+    if (!quoteNumber) {
+      setToast('저장된 견적을 불러온 뒤 다시 시도하세요.');
+      return;
+    }
+    if (!pdfTarget.quoteNumber) pdfTarget.onNumbered(quoteNumber);
+    const pdf = buildQuotePdf({
+      quoteNumber,
+      issuedAt,
+      validUntil: computeValidUntil(issuedAt, pdfValidDays),
+      business: single?.business ?? business,
+      customer: pdfCustomer,
+      items: pdfTarget.items,
+      logo: await loadLogoForPdf(),
+    });
+    const safeTitle = (pdfCustomer.name || pdfTarget.title).replace(/[^a-z0-9가-힣]/gi, '_');
+    downloadFile(pdf, `견적서_${safeTitle}_${quoteNumber}.pdf`, 'application/pdf');
+    setPdfTarget(null);
+  };
+
+  const handleTogglePin = useCallback((id: number) => {
+    setSavedItems(prev => prev.map(item => item.id === id ? { ...item, pinned: !item.pinned } : item));
+  }, []);
+
+  const handleToggleProjectPin = useCallback((id: number) => {
+    setProjects(prev => prev.map(project => project.id === id ? { ...project, pinned: !project.pinned } : project));
   }, []);
 
-  const handleDownload = useCallback(async (id: number, title: string) => {
-    const element = document.getElementById(`saved-item-${id}`);
+  const handleRename = useCallback((id: number, title: string) => {
+    setSavedItems(prev => prev.map(item =>
+      item.id === id
+        ? { ...item, title, inputs: item.inputs && { ...item.inputs, customTitle: title } }
+        : item
+    ));
+  }, []);
+
+  // Project lines are copies, so editing or deleting the standalone card leaves the project intact
+  const handleAddToProject = useCallback((item: SavedItem) => {
+    if (activeProjectId === null) return;
+    setProjects(prev => prev.map(project =>
+      project.id === activeProjectId
+        ? { ...project, items: [...project.items, { ...item, id: Date.now() }], timestamp: Date.now() }
+        : project
+    ));
+  }, [activeProjectId]);
+
+  const handleSaveToProject = () => {
+    if (!results.isValid) return;
+    handleAddToProject(buildSavedItem(allocateQuoteNumber()));
+  };
+
+  const handleCreateProject = () => {
+    const id = Date.now();
+    const title = newProjectTitle.trim() || `프로젝트 ${formatDate(id)}`;
+    setProjects(prev => [{ id, title, items: [], timestamp: id }, ...prev]);
+    setActiveProjectId(id);
+    setNewProjectTitle('');
+  };
+
+  const handleToggleProject = useCallback((id: number) => {
+    setActiveProjectId(prev => (prev === id ? null : id));
+  }, []);
+
+  const handleRemoveProjectLine = useCallback((projectId: number, itemId: number) => {
+    setProjects(prev => prev.map(project =>
+      project.id === projectId
+        ? { ...project, items: project.items.filter(item => item.id !== itemId), timestamp: Date.now() }
+        : project
+    ));
+  }, []);
+
+  const handleDeleteProject = useCallback((id: number) => {
+    setProjects(prev => prev.filter(project => project.id !== id));
+    setActiveProjectId(prev => (prev === id ? null : prev));
+  }, []);
+
+  // Memoized handlers for SavedItemCard to prevent re-creation on every render
+  const handleDelete = useCallback((id: number) => {
+    setSavedItems(prev => prev.filter(item => item.id !== id));
+    setEditingId(prev => (prev === id ? null : prev));
+  }, []);
+
+  const handleDownload = useCallback(async (id: number, title: string, elementPrefix: string = 'saved-item') => {
+    const element = document.getElementById(`${elementPrefix}-${id}`);
     if (!element) return;
 
     try {
-      if (!window.html2canvas) {
-        await loadHtml2Canvas();
-      }
+      const html2canvas = await loadHtml2Canvas();
 
-      const canvas = await window.html2canvas(element, { 
+      const canvas = await html2canvas(element, { 
         scale: 2, 
         backgroundColor: null,
         logging: false,
-        useCORS: true
       });
       
       canvas.toBlob(async (blob: Blob | null) => {
@@ -568,11 +1819,24 @@ const App: React.FC = () => {
           {/* Header */}
           <div className="bg-[#004225]/10 p-5 border-b border-[#004225]/10">
             <h1 className="text-2xl font-bold text-center text-[#004225]">데크 수량/면적 산출기</h1>
+            {shareNotice && (
+              <div className="mt-2 flex items-start justify-center gap-1 text-sm text-red-500">
+                <span>{shareNotice}</span>
+                <button onClick={() => setShareNotice(null)} className="text-red-300 hover:text-red-500" title="닫기">
+                  <XMarkIcon />
+                </button>
+              </div>
+            )}
+            {!isOnline && (
+              <div className="mt-2 text-center text-sm font-bold text-amber-700">
+                오프라인 · 계산, 저장된 견적, 이미지/PDF 내보내기는 계속 사용할 수 있습니다.
+              </div>
+            )}
           </div>
 
           <div className="p-4 space-y-6">
             
-            {/* 1. Title Input */}
+            {/* 1. Title & Customer */}
             <div>
               <label className="block text-base font-bold text-slate-500 mb-1.5">제목 (선택사항)</label>
               <input 
@@ -582,6 +1846,25 @@ const App: React.FC = () => {
                 placeholder="회사명, 제품명, 시공면적 등 작성하세요."
                 className="w-full rounded-lg border border-[#004225]/20 bg-white py-2.5 px-3 text-lg text-slate-900 focus:border-[#004225] focus:outline-none placeholder:text-slate-300"
               />
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {([
+                  ['name', '고객명', '홍길동 / ○○건설'],
+                  ['contact', '연락처', '010-0000-0000'],
+                  ['site', '현장 주소', '경기도 김포시 ○○동 옥상'],
+                ] as [keyof QuoteCustomer, string, string][]).map(([key, label, placeholder]) => (
+                  <div key={key} className={key === 'site' ? 'col-span-2' : ''}>
+                    <label className="block text-sm font-bold text-slate-500 mb-1">{label}</label>
+                    <input
+                      type="text"
+                      value={customer[key]}
+                      onChange={(e) => setCustomer(prev => ({ ...prev, [key]: e.target.value }))}
+                      placeholder={placeholder}
+                      className="w-full rounded-md border border-[#004225]/20 bg-white py-2 px-3 text-base text-slate-900 focus:border-[#004225] focus:outline-none placeholder:text-slate-300"
+                    />
+                  </div>
+                ))}
+                <NumberField label="유효기간" value={validDays} onChange={setValidDays} unit="일" />
+              </div>
             </div>
 
             {/* 2. Specs */}
@@ -593,62 +1876,188 @@ const App: React.FC = () => {
               <section className="grid grid-cols-3 gap-2">
                 <DimensionControl 
                   label="두께 (T)" 
-                  options={THICKNESS_OPTS} 
+                  options={thicknessOptions} 
                   value={thickness} 
-                  onChange={setThickness} 
+                  onChange={handleThicknessChange} 
                   unit=""
                 />
                 <DimensionControl 
                   label="폭 (W)" 
-                  options={WIDTH_OPTS} 
+                  options={widthOptions} 
                   value={width} 
-                  onChange={setWidth} 
+                  onChange={handleWidthChange} 
                   unit=""
                 />
                 <DimensionControl 
                   label="길이 (L)" 
-                  options={LENGTH_OPTS} 
+                  options={lengthOptions} 
                   value={length} 
                   onChange={setLength} 
                   unit=""
                 />
               </section>
+
+              {/* Catalog product for the spec */}
+              <div className="mt-2 flex items-center justify-between gap-2">
+                {specProducts.length > 1 ? (
+                  <select
+                    value={selectedSku ?? ''}
+                    onChange={(e) => handleProductSelect(e.target.value)}
+                    className="flex-1 min-w-0 rounded-md border border-[#004225]/20 bg-white py-1.5 px-2 text-sm text-slate-700 focus:border-[#004225] focus:outline-none"
+                  >
+                    {specProducts.map((p) => (
+                      <option key={p.sku} value={p.sku}>
+                        {describeProduct(p)} ({p.price.toLocaleString()}원)
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-sm text-slate-500 truncate">
+                    {selectedProduct
+                      ? describeProduct(selectedProduct)
+                      : '카탈로그에 없는 규격 (단가 직접입력)'}
+                  </span>
+                )}
+                <button
+                  onClick={() => setIsCatalogOpen(!isCatalogOpen)}
+                  className="text-sm font-bold text-[#004225]/70 hover:text-[#004225] underline whitespace-nowrap"
+                >
+                  카탈로그 관리
+                </button>
+              </div>
+
+              {isCatalogOpen && (
+                <div className="mt-2 rounded-lg border border-[#004225]/20 p-3 space-y-2">
+                  <div className="text-sm text-slate-500">등록된 제품 {catalog.length}개 · CSV 열: sku, name, material, profile(solid/hollow), thickness, width, length, price, color</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => downloadFile('\uFEFF' + catalogToCsv(catalog), '데크_카탈로그.csv', 'text/csv;charset=utf-8')}
+                      className="py-2 text-sm font-bold rounded-md bg-[#004225]/10 text-[#004225]/70 hover:text-[#004225]"
+                    >
+                      CSV 내보내기
+                    </button>
+                    <button
+                      onClick={() => downloadFile(catalogToJson(catalog), '데크_카탈로그.json', 'application/json')}
+                      className="py-2 text-sm font-bold rounded-md bg-[#004225]/10 text-[#004225]/70 hover:text-[#004225]"
+                    >
+                      JSON 내보내기
+                    </button>
+                    <label className="py-2 text-sm font-bold rounded-md bg-[#004225] text-white text-center cursor-pointer hover:opacity-90">
+                      가져오기 (CSV/JSON)
+                      <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleCatalogImport} className="hidden" />
+                    </label>
+                    <button
+                      onClick={handleCatalogReset}
+                      className="py-2 text-sm font-bold rounded-md border border-[#004225]/20 text-slate-500 hover:text-[#004225]"
+                    >
+                      기본 목록으로
+                    </button>
+                  </div>
+                  {catalogMessage && (
+                    <div className="text-sm">
+                      <div className="text-slate-600">{catalogMessage.text}</div>
+                      {catalogMessage.errors.slice(0, 5).map((error) => (
+                        <div key={error} className="text-red-500">{error}</div>
+                      ))}
+                      {catalogMessage.errors.length > 5 && (
+                        <div className="text-red-500">외 {catalogMessage.errors.length - 5}건</div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Board gap */}
+            <div>
+              <div className="flex justify-between items-end mb-1.5">
+                <h3 className="text-base font-bold text-slate-500">줄눈 간격</h3>
+                <span className="text-sm text-slate-400">유효폭 {getCoverWidth({ t: thickness, w: width, l: length }, { gapMm, overlapMm })}mm</span>
+              </div>
+              <div className="flex gap-2">
+                {GAP_PRESETS.map((preset) => (
+                  <button
+                    key={preset}
+                    onClick={() => setGapMm(preset)}
+                    className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                      gapMm === preset
+                        ? 'bg-[#004225] border-[#004225] text-white'
+                        : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                    }`}
+                  >
+                    {preset === 0 ? '없음' : `${preset}mm`}
+                  </button>
+                ))}
+              </div>
+              <div className="mt-2 w-1/2">
+                <NumberField label="T&G 겹침 (프로파일)" value={overlapMm} onChange={setOverlapMm} unit="mm" />
+              </div>
             </div>
 
             {/* 3. Unit Price */}
             <section className="bg-[#004225]/5 rounded-lg p-4 border border-[#004225]/10 space-y-4">
-              <div className="flex items-end gap-3">
-                <div className="flex-1">
-                   <div className="text-slate-500 text-sm mb-1">단가 (1장) <span className="text-[#004225]/70 text-xs">*수정가능</span></div>
-                   <div className="relative">
-                    <input
-                      type="text"
-                      inputMode="numeric"
-                      value={unitPrice === 0 ? '' : unitPrice.toLocaleString()}
-                      onFocus={moveCursorToEnd}
-                      onClick={moveCursorToEnd}
-                      onChange={handlePriceChange}
-                      className="block w-full p-1.5 text-xl font-bold text-[#004225] bg-white border border-[#004225]/20 rounded px-2 focus:border-[#004225] focus:outline-none no-spinner"
-                    />
-                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-base text-slate-400 pointer-events-none">원</span>
+              <div>
+                <div className="flex items-end justify-between mb-1">
+                  <div className="text-slate-500 text-sm">
+                    단가 ({priceBasis === 'board' ? '1장' : `${PRICE_BASIS_UNITS[priceBasis]}당`}){' '}
+                    <span className="text-[#004225]/70 text-xs">{costPrice === null ? '*수정가능' : `*${PRICING_RULE_LABELS[costSettings.rule]}`}</span>
                   </div>
-                </div>
-                <div className="flex-1 text-right">
-                  <div className="text-slate-400 text-sm mb-1">m²당 단가</div>
-                  <div className="font-semibold text-slate-600 text-lg">
-                    {results.areaPerBoardM2 > 0 ? `${Math.round(results.pricePerM2).toLocaleString()} 원` : '-'}
+                  <div className="flex rounded-md bg-[#004225]/10 p-0.5">
+                    {(Object.keys(PRICE_BASIS_UNITS) as PriceBasis[]).map((basis) => (
+                      <button
+                        key={basis}
+                        onClick={() => handlePriceBasisChange(basis)}
+                        className={`px-2 py-0.5 text-xs font-bold rounded transition-all ${
+                          priceBasis === basis ? 'bg-white text-[#004225] shadow-sm' : 'text-[#004225]/60 hover:text-[#004225]'
+                        }`}
+                      >
+                        {PRICE_BASIS_UNITS[basis]}당
+                      </button>
+                    ))}
                   </div>
                 </div>
+                <div className="relative">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={quotedPrice === 0 ? '' : quotedPrice.toLocaleString()}
+                    readOnly={costPrice !== null}
+                    onFocus={moveCursorToEnd}
+                    onClick={moveCursorToEnd}
+                    onChange={handlePriceChange}
+                    className="block w-full p-1.5 text-xl read-only:bg-[#004225]/5 font-bold text-[#004225] bg-white border border-[#004225]/20 rounded px-2 focus:border-[#004225] focus:outline-none no-spinner"
+                  />
+                  <span className="absolute right-2 top-1/2 -translate-y-1/2 text-base text-slate-400 pointer-events-none">원</span>
+                </div>
               </div>
-              
-              <div className="flex justify-between items-center border-t border-[#004225]/10 pt-3">
-                 <div className="text-slate-500 text-lg">1장 면적: {results.areaPerBoardM2 > 0 ? `${results.areaPerBoardM2.toFixed(2)} m²` : '-'}</div>
-                 <div className="text-right">
-                    <div className="text-slate-400 text-sm">평당 단가</div>
+
+              {/* The same price in the other three units, for the selected spec */}
+              <div className="grid grid-cols-3 gap-2 text-right">
+                {(Object.keys(PRICE_BASIS_UNITS) as PriceBasis[]).filter(basis => basis !== priceBasis).map((basis) => (
+                  <div key={basis}>
+                    <div className="text-slate-400 text-sm">{basis === 'board' ? '1장' : `${PRICE_BASIS_UNITS[basis]}당`} 단가</div>
                     <div className="font-semibold text-slate-600 text-lg">
-                       {results.pricePerPyeong > 0 ? `${Math.round(results.pricePerPyeong).toLocaleString()} 원` : '-'}
+                      {results.areaPerBoardM2 > 0 && quotedPrice > 0
+                        ? `${Math.round(convertPrice(quotedPrice, priceBasis, basis, { t: thickness, w: width, l: length })).toLocaleString()} 원`
+                        : '-'}
                     </div>
+                  </div>
+                ))}
+              </div>
+              
+              <div className="flex justify-between items-center border-t border-[#004225]/10 pt-3">
+                 <div>
+                   <div className="text-slate-500 text-lg">1장 면적: {results.areaPerBoardM2 > 0 ? `${results.areaPerBoardM2.toFixed(2)} m²` : '-'}</div>
+                   {(gapMm > 0 || overlapMm > 0) && results.effectiveAreaPerBoardM2 > 0 && (
+                     <div className="text-slate-400 text-sm">유효 시공면적 {results.effectiveAreaPerBoardM2.toFixed(3)} m²</div>
+                   )}
                  </div>
+                 {(gapMm > 0 || overlapMm > 0) && results.pricePerM2 > 0 && (
+                   <div className="text-right">
+                      <div className="text-slate-400 text-sm">시공면적 m²당</div>
+                      <div className="font-semibold text-slate-600 text-lg">{Math.round(results.pricePerM2).toLocaleString()} 원</div>
+                   </div>
+                 )}
               </div>
             </section>
 
@@ -679,28 +2088,531 @@ const App: React.FC = () => {
                 >
                   면적(평)
                 </button>
+                <button
+                  onClick={() => setMode('layout')}
+                  className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${
+                    mode === 'layout' ? 'bg-white text-[#004225] shadow-sm' : 'text-[#004225]/60 hover:text-[#004225]'
+                  }`}
+                >
+                  가로×세로
+                </button>
+                <button
+                  onClick={() => setMode('budget')}
+                  className={`flex-1 py-2 text-sm font-bold rounded-md transition-all ${
+                    mode === 'budget' ? 'bg-white text-[#004225] shadow-sm' : 'text-[#004225]/60 hover:text-[#004225]'
+                  }`}
+                >
+                  예산
+                </button>
               </div>
 
-              <div className="relative">
+              {mode === 'layout' ? (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    {[
+                      { label: '가로', value: deckWidth, onChange: handleDeckWidthChange },
+                      { label: '세로', value: deckDepth, onChange: handleDeckDepthChange },
+                    ].map(({ label, value, onChange }) => (
+                      <div key={label}>
+                        <label className="block text-base font-bold text-slate-700 mb-1.5">{label}</label>
+                        <div className="relative">
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            value={getDisplayValue(value)}
+                            onChange={onChange}
+                            onFocus={moveCursorToEnd}
+                            onClick={moveCursorToEnd}
+                            placeholder="0"
+                            className="block w-full rounded-lg border border-[#004225]/20 bg-white py-3.5 pl-3 pr-12 text-xl font-bold text-slate-900 shadow-sm focus:border-[#004225] focus:ring-[#004225] no-spinner text-right"
+                          />
+                          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
+                            <span className="text-slate-500 font-medium text-lg">mm</span>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div>
+                    <div className="text-base font-bold text-slate-500 mb-1.5">데크 방향</div>
+                    <div className="flex gap-2">
+                      {([['width', '가로 방향'], ['depth', '세로 방향']] as const).map(([dir, label]) => (
+                        <button
+                          key={dir}
+                          onClick={() => setBoardDirection(dir)}
+                          className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                            boardDirection === dir
+                              ? 'bg-[#004225] border-[#004225] text-white'
+                              : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="relative">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={getDisplayValue(inputValue)}
+                    onChange={handleInputValueChange}
+                    onFocus={moveCursorToEnd}
+                    onClick={moveCursorToEnd}
+                    placeholder="0"
+                    className="block w-full rounded-lg border border-[#004225]/20 bg-white py-3.5 pl-3 pr-10 text-xl font-bold text-slate-900 shadow-sm focus:border-[#004225] focus:ring-[#004225] no-spinner text-right"
+                  />
+                  <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-4">
+                    <span className="text-slate-500 font-medium text-lg">
+                      {mode === 'quantity' ? '장' : mode === 'area_m2' ? 'm²' : mode === 'budget' ? '원' : '평'}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {mode === 'budget' && (
+                <div className="mt-3 space-y-1">
+                  <label className="flex items-center gap-2 text-base font-bold text-slate-500">
+                    <input
+                      type="checkbox"
+                      checked={budgetIncludesExtras}
+                      onChange={(e) => setBudgetIncludesExtras(e.target.checked)}
+                      className="h-4 w-4 accent-[#004225]"
+                    />
+                    운임·부가세 포함 예산
+                  </label>
+                  <div className="text-xs text-slate-400">
+                    * 할인은 항상 반영하고, 체크하면 아래 부가세·운임 설정도 적용합니다. 하부구조·부자재는 예산에 포함되지 않습니다.
+                  </div>
+                  {!results.isValid && parseFloat(inputValue) > 0 && quotedPrice > 0 && (
+                    <div className="text-sm text-red-500">예산으로 데크재 1장도 구매할 수 없습니다.</div>
+                  )}
+                </div>
+              )}
+
+              {isAreaMode && (
+                <div className="mt-3">
+                  {isShapeEditorOpen ? (
+                    <DeckShapeEditor
+                      boardWidth={getCoverWidth({ t: thickness, w: width, l: length }, { gapMm, overlapMm })}
+                      direction={boardDirection}
+                      onApply={handleShapeApply}
+                      onClose={() => setIsShapeEditorOpen(false)}
+                    />
+                  ) : (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-slate-400">
+                        {outlinePerimeterM !== null ? `도형 둘레 ${outlinePerimeterM.toFixed(2)} m` : 'ㄱ자·기둥 등 복잡한 형태는'}
+                      </span>
+                      <button
+                        onClick={() => setIsShapeEditorOpen(true)}
+                        className="text-sm font-bold text-[#004225]/70 hover:text-[#004225] underline"
+                      >
+                        도형으로 면적 입력
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {isAreaMode && (
+                <div className="mt-3">
+                  <div className="flex justify-between items-end mb-1.5">
+                    <span className="text-base font-bold text-slate-500">할증률 (절단 손실)</span>
+                    <span className="text-sm text-slate-400">단위 : %</span>
+                  </div>
+                  <div className="flex gap-2">
+                    {LOSS_PRESETS.map((preset) => (
+                      <button
+                        key={preset}
+                        onClick={() => setLossPercent(preset)}
+                        className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                          lossPercent === preset
+                            ? 'bg-[#004225] border-[#004225] text-white'
+                            : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                        }`}
+                      >
+                        {preset === 0 ? '없음' : `${preset}%`}
+                      </button>
+                    ))}
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      value={lossPercent === 0 ? '' : lossPercent}
+                      onChange={handleLossChange}
+                      placeholder="직접"
+                      className="w-16 rounded-md border border-[#004225]/20 bg-white px-2 text-sm font-bold text-slate-700 text-right focus:border-[#004225] focus:outline-none no-spinner"
+                    />
+                  </div>
+                </div>
+              )}
+            </section>
+
+            {/* Cut-list optimizer */}
+            <section className="rounded-lg border border-[#004225]/10 p-4 space-y-3">
+              <button
+                onClick={() => setIsCutListOpen(!isCutListOpen)}
+                className="w-full flex items-center justify-between"
+              >
+                <span className="text-base font-bold text-slate-700">재단 최적화 (길이별 비교)</span>
+                <span className={`transition-transform ${isCutListOpen ? 'rotate-180' : ''}`}><ChevronDownIcon /></span>
+              </button>
+              {isCutListOpen && (
+                <CutListOptimizer layoutPieces={layoutPieces} stock={stockOptions} onApplyLength={setLength} />
+              )}
+            </section>
+
+            {/* 5. Substructure, Fasteners & Edges */}
+            <section className="rounded-lg border border-[#004225]/10 p-4 space-y-3">
+              <div>
+                <div className="flex justify-between items-end mb-1">
+                  <span className="text-sm font-bold text-slate-500">장선 간격</span>
+                  <span className="text-xs text-slate-400">{thickness}T 권장 {recommendedJoistSpacing(thickness)}mm</span>
+                </div>
+                <div className="flex gap-2">
+                  {JOIST_SPACING_OPTS.map((spacing) => (
+                    <button
+                      key={spacing}
+                      onClick={() => setJoistSpacing(spacing)}
+                      className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                        joistSpacing === spacing
+                          ? 'bg-[#004225] border-[#004225] text-white'
+                          : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                      }`}
+                    >
+                      {spacing}mm
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-base font-bold text-slate-700">하부구조 (장선/멍에/기초)</span>
                 <input
-                  type="text"
-                  inputMode="decimal"
-                  value={getDisplayValue(inputValue)}
-                  onChange={handleInputValueChange}
-                  onFocus={moveCursorToEnd}
-                  onClick={moveCursorToEnd}
-                  placeholder="0"
-                  className="block w-full rounded-lg border border-[#004225]/20 bg-white py-3.5 pl-3 pr-10 text-xl font-bold text-slate-900 shadow-sm focus:border-[#004225] focus:ring-[#004225] no-spinner text-right"
+                  type="checkbox"
+                  checked={includeSubstructure}
+                  onChange={(e) => setIncludeSubstructure(e.target.checked)}
+                  className="h-5 w-5 accent-[#004225]"
                 />
-                <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-4">
-                  <span className="text-slate-500 font-medium text-lg">
-                    {mode === 'quantity' ? '장' : mode === 'area_m2' ? 'm²' : '평'}
-                  </span>
+              </label>
+
+              {includeSubstructure && (
+                <>
+                  <div className="flex gap-2">
+                    {(Object.keys(MATERIAL_LABELS) as ProfileMaterial[]).map((material) => (
+                      <button
+                        key={material}
+                        onClick={() => handleMaterialChange(material)}
+                        className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                          profileMaterial === material
+                            ? 'bg-[#004225] border-[#004225] text-white'
+                            : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                        }`}
+                      >
+                        {MATERIAL_LABELS[material]}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <NumberField label="멍에 간격" value={bearerSpacing} onChange={setBearerSpacing} unit="mm" />
+                    <NumberField label="기초 간격" value={postSpacing} onChange={setPostSpacing} unit="mm" />
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <NumberField label="장선 (1본)" value={subPrices.joist} onChange={(joist) => setSubPrices((p) => ({ ...p, joist }))} unit="원" />
+                    <NumberField label="멍에 (1본)" value={subPrices.bearer} onChange={(bearer) => setSubPrices((p) => ({ ...p, bearer }))} unit="원" />
+                    <NumberField label="기초 (1개)" value={subPrices.post} onChange={(post) => setSubPrices((p) => ({ ...p, post }))} unit="원" />
+                  </div>
+                </>
+              )}
+
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-base font-bold text-slate-700">부자재 (클립/피스)</span>
+                <input
+                  type="checkbox"
+                  checked={includeFasteners}
+                  onChange={(e) => setIncludeFasteners(e.target.checked)}
+                  className="h-5 w-5 accent-[#004225]"
+                />
+              </label>
+
+              {includeFasteners && (
+                <div className="grid grid-cols-3 gap-2">
+                  <NumberField label="클립 (1박스)" value={fastenerPrices.clipBox} onChange={(clipBox) => setFastenerPrices((p) => ({ ...p, clipBox }))} unit="원" />
+                  <NumberField label="스타트 (1박스)" value={fastenerPrices.startClipBox} onChange={(startClipBox) => setFastenerPrices((p) => ({ ...p, startClipBox }))} unit="원" />
+                  <NumberField label="피스 (1박스)" value={fastenerPrices.screwBox} onChange={(screwBox) => setFastenerPrices((p) => ({ ...p, screwBox }))} unit="원" />
+                </div>
+              )}
+
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-base font-bold text-slate-700">측면 마감·계단</span>
+                <input
+                  type="checkbox"
+                  checked={includeEdges}
+                  onChange={(e) => setIncludeEdges(e.target.checked)}
+                  className="h-5 w-5 accent-[#004225]"
+                />
+              </label>
+
+              {includeEdges && (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    <NumberField label="노출 둘레 (0 = 전체)" value={edges.exposedMm} onChange={(exposedMm) => setEdges((s) => ({ ...s, exposedMm }))} unit="mm" />
+                    <NumberField label="데크 높이" value={edges.heightMm} onChange={(heightMm) => setEdges((s) => ({ ...s, heightMm }))} unit="mm" />
+                    <NumberField label="계단" value={edges.steps} onChange={(steps) => setEdges((s) => ({ ...s, steps }))} unit="단" />
+                    <NumberField label="계단 폭" value={edges.treadWidthMm} onChange={(treadWidthMm) => setEdges((s) => ({ ...s, treadWidthMm }))} unit="mm" />
+                    <NumberField label="모서리" value={edges.corners} onChange={(corners) => setEdges((s) => ({ ...s, corners }))} unit="개" />
+                    <NumberField label="코너 마감 (1개)" value={edges.trimPrice} onChange={(trimPrice) => setEdges((s) => ({ ...s, trimPrice }))} unit="원" />
+                  </div>
+                  {edgeEstimate && (
+                    <div className="text-xs text-slate-500">
+                      {thickness}×{width}×{length} 데크재 {edgeEstimate.estimate.boards.toLocaleString()}장 추가 · 장당 {Math.round(boardPrice).toLocaleString()}원
+                    </div>
+                  )}
+                </>
+              )}
+
+              {(includeSubstructure || includeFasteners || includeEdges) && results.isValid && !results.layout && (
+                <div className="text-xs text-slate-400">* 가로×세로 입력이 없으면 같은 면적의 정사각형으로 계산합니다.</div>
+              )}
+            </section>
+
+            {/* 6. Labour */}
+            <section className="rounded-lg border border-[#004225]/10 p-4 space-y-3">
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-base font-bold text-slate-700">시공비 (인건비·부대공사)</span>
+                <input
+                  type="checkbox"
+                  checked={includeLabour}
+                  onChange={(e) => setIncludeLabour(e.target.checked)}
+                  className="h-5 w-5 accent-[#004225]"
+                />
+              </label>
+
+              {includeLabour && (
+                <>
+                  <div className="flex gap-2">
+                    {(Object.keys(LABOUR_RATE_UNIT_LABELS) as LabourRateUnit[]).map((rateUnit) => (
+                      <button
+                        key={rateUnit}
+                        onClick={() => setLabour((l) => ({ ...l, rateUnit }))}
+                        className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                          labour.rateUnit === rateUnit
+                            ? 'bg-[#004225] border-[#004225] text-white'
+                            : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                        }`}
+                      >
+                        {LABOUR_RATE_UNIT_LABELS[rateUnit]}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <NumberField
+                      label={`시공비 (${LABOUR_RATE_UNIT_LABELS[labour.rateUnit]})`}
+                      value={labour.installRate}
+                      onChange={(installRate) => setLabour((l) => ({ ...l, installRate }))}
+                      unit="원"
+                    />
+                    <NumberField
+                      label="최소 시공비"
+                      value={labour.minimumCharge}
+                      onChange={(minimumCharge) => setLabour((l) => ({ ...l, minimumCharge }))}
+                      unit="원"
+                    />
+                  </div>
+
+                  <label className="flex items-center justify-between cursor-pointer">
+                    <span className="text-sm font-bold text-slate-500">기존 데크 철거</span>
+                    <input
+                      type="checkbox"
+                      checked={labour.demolition}
+                      onChange={(e) => setLabour((l) => ({ ...l, demolition: e.target.checked }))}
+                      className="h-5 w-5 accent-[#004225]"
+                    />
+                  </label>
+                  {labour.demolition && (
+                    <NumberField
+                      label={`철거비 (${LABOUR_RATE_UNIT_LABELS[labour.rateUnit]})`}
+                      value={labour.demolitionRate}
+                      onChange={(demolitionRate) => setLabour((l) => ({ ...l, demolitionRate }))}
+                      unit="원"
+                    />
+                  )}
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <NumberField label="계단" value={labour.stairSteps} onChange={(stairSteps) => setLabour((l) => ({ ...l, stairSteps }))} unit="단" />
+                    <NumberField label="계단 (1단)" value={labour.stairRate} onChange={(stairRate) => setLabour((l) => ({ ...l, stairRate }))} unit="원" />
+                    <NumberField label="난간" value={labour.railingMeters} onChange={(railingMeters) => setLabour((l) => ({ ...l, railingMeters }))} unit="m" />
+                    <NumberField label="난간 (1m)" value={labour.railingRate} onChange={(railingRate) => setLabour((l) => ({ ...l, railingRate }))} unit="원" />
+                  </div>
+                  <NumberField
+                    label="작업 여건 할증 (옥상·양중·진입 곤란 등)"
+                    value={labour.accessSurchargePercent}
+                    onChange={(accessSurchargePercent) => setLabour((l) => ({ ...l, accessSurchargePercent }))}
+                    unit="%"
+                  />
+                  <div className="text-xs text-slate-400">* 시공 면적 기준이며, 최소 시공비보다 적으면 차액을 보정합니다.</div>
+                </>
+              )}
+            </section>
+
+            {/* 7. Cost & Discount */}
+            <section className="rounded-lg border border-[#004225]/10 p-4 space-y-3">
+              <div>
+                <div className="text-sm font-bold text-slate-500 mb-1">판매가</div>
+                <div className="flex gap-2">
+                  {(Object.keys(PRICING_RULE_LABELS) as PricingRule[]).map((rule) => (
+                    <button
+                      key={rule}
+                      onClick={() => setCostSettings((s) => ({ ...s, rule }))}
+                      className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                        costSettings.rule === rule
+                          ? 'bg-[#004225] border-[#004225] text-white'
+                          : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                      }`}
+                    >
+                      {PRICING_RULE_LABELS[rule]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField
+                  label="매입가 (1장, VAT 별도)"
+                  value={costSettings.costPerBoard}
+                  onChange={(costPerBoard) => setCostSettings((s) => ({ ...s, costPerBoard }))}
+                  unit="원"
+                />
+                {costSettings.rule === 'markup' && (
+                  <NumberField
+                    label="마진율 (원가 대비)"
+                    value={costSettings.markupPercent}
+                    onChange={(markupPercent) => setCostSettings((s) => ({ ...s, markupPercent }))}
+                    unit="%"
+                  />
+                )}
+                {costSettings.rule === 'margin' && (
+                  <NumberField
+                    label="이익률 (판매가 대비)"
+                    value={costSettings.marginPercent}
+                    onChange={(marginPercent) => setCostSettings((s) => ({ ...s, marginPercent: Math.min(99, marginPercent) }))}
+                    unit="%"
+                  />
+                )}
+              </div>
+
+              <div>
+                <div className="text-sm font-bold text-slate-500 mb-1">할인</div>
+                <div className="flex gap-2">
+                  {(Object.keys(DISCOUNT_TYPE_LABELS) as DiscountType[]).map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => setDiscount((d) => ({ ...d, type }))}
+                      className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                        discount.type === type
+                          ? 'bg-[#004225] border-[#004225] text-white'
+                          : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                      }`}
+                    >
+                      {DISCOUNT_TYPE_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {discount.type === 'percent' && (
+                <NumberField label="할인율" value={discount.percent} onChange={(percent) => setDiscount((d) => ({ ...d, percent: Math.min(100, percent) }))} unit="%" />
+              )}
+              {discount.type === 'fixed' && (
+                <NumberField label="할인 금액" value={discount.amount} onChange={(amount) => setDiscount((d) => ({ ...d, amount }))} unit="원" />
+              )}
+
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-base font-bold text-slate-700">수량 할인 구간</span>
+                <input
+                  type="checkbox"
+                  checked={discount.useVolumeTiers}
+                  onChange={(e) => setDiscount((d) => ({ ...d, useVolumeTiers: e.target.checked }))}
+                  className="h-5 w-5 accent-[#004225]"
+                />
+              </label>
+              {discount.useVolumeTiers && discount.volumeTiers.map((tier, i) => (
+                <div key={i} className="grid grid-cols-2 gap-2">
+                  <NumberField
+                    label={`구간 ${i + 1}`}
+                    value={tier.minBoards}
+                    onChange={(minBoards) => setDiscount((d) => ({ ...d, volumeTiers: d.volumeTiers.map((t, j) => j === i ? { ...t, minBoards } : t) }))}
+                    unit="장~"
+                  />
+                  <NumberField
+                    label="할인율"
+                    value={tier.percent}
+                    onChange={(percent) => setDiscount((d) => ({ ...d, volumeTiers: d.volumeTiers.map((t, j) => j === i ? { ...t, percent: Math.min(100, percent) } : t) }))}
+                    unit="%"
+                  />
+                </div>
+              ))}
+              <div className="text-xs text-slate-400">* 원가와 할인은 데크재에 적용합니다. 수량 할인 후 견적 할인을 적용합니다.</div>
+            </section>
+
+            {/* 8. VAT & Freight */}
+            <section className="rounded-lg border border-[#004225]/10 p-4 space-y-3">
+              <div>
+                <div className="text-sm font-bold text-slate-500 mb-1">부가세</div>
+                <div className="flex gap-2">
+                  {(Object.keys(VAT_MODE_LABELS) as VatMode[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setVatMode(option)}
+                      className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                        vatMode === option
+                          ? 'bg-[#004225] border-[#004225] text-white'
+                          : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                      }`}
+                    >
+                      {VAT_MODE_LABELS[option]}
+                    </button>
+                  ))}
                 </div>
               </div>
+              <div>
+                <div className="text-sm font-bold text-slate-500 mb-1">운임</div>
+                <div className="flex gap-2">
+                  {(Object.keys(FREIGHT_METHOD_LABELS) as FreightMethod[]).map((method) => (
+                    <button
+                      key={method}
+                      onClick={() => setFreight((f) => ({ ...f, method }))}
+                      className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all ${
+                        freight.method === method
+                          ? 'bg-[#004225] border-[#004225] text-white'
+                          : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+                      }`}
+                    >
+                      {FREIGHT_METHOD_LABELS[method]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {freight.method === 'flat' && (
+                <NumberField label="운임 (정액)" value={freight.flatFee} onChange={(flatFee) => setFreight((f) => ({ ...f, flatFee }))} unit="원" />
+              )}
+              {freight.method === 'per_board' && (
+                <NumberField label="운임 (1장)" value={freight.perBoard} onChange={(perBoard) => setFreight((f) => ({ ...f, perBoard }))} unit="원" />
+              )}
+              {freight.method === 'region' && (
+                <select
+                  value={freight.region}
+                  onChange={(e) => setFreight((f) => ({ ...f, region: e.target.value }))}
+                  className="block w-full rounded-md border border-[#004225]/20 bg-white py-2 px-2 text-base font-bold text-slate-700 focus:border-[#004225] focus:outline-none"
+                >
+                  {REGION_FREIGHT.map(({ region, fee }) => (
+                    <option key={region} value={region}>{region} · {fee.toLocaleString()}원</option>
+                  ))}
+                </select>
+              )}
             </section>
 
-            {/* 5. Results */}
+            {/* 9. Results */}
             <section className="animate-fade-in-up space-y-3 pt-2 border-t border-[#004225]/10">
               
               {mode === 'quantity' && (
@@ -720,8 +2632,14 @@ const App: React.FC = () => {
 
               {mode === 'area_m2' && (
                 <>
+                  {lossPercent > 0 && (
+                    <ResultRow
+                      label="순소요 수량"
+                      value={results.isValid ? `${results.netQuantity.toLocaleString()} 장` : '-'}
+                    />
+                  )}
                   <ResultRow
-                    label="수량"
+                    label={lossPercent > 0 ? `발주 수량 (할증 ${lossPercent}%)` : '수량'}
                     value={results.isValid ? `${results.totalQuantity.toLocaleString()} 장` : '-'}
                     highlight={true}
                   />
@@ -735,8 +2653,14 @@ const App: React.FC = () => {
 
               {mode === 'area_pyeong' && (
                 <>
+                  {lossPercent > 0 && (
+                    <ResultRow
+                      label="순소요 수량"
+                      value={results.isValid ? `${results.netQuantity.toLocaleString()} 장` : '-'}
+                    />
+                  )}
                   <ResultRow
-                    label="수량"
+                    label={lossPercent > 0 ? `발주 수량 (할증 ${lossPercent}%)` : '수량'}
                     value={results.isValid ? `${results.totalQuantity.toLocaleString()} 장` : '-'}
                     highlight={true}
                   />
@@ -748,40 +2672,408 @@ const App: React.FC = () => {
                 </>
               )}
 
+              {mode === 'budget' && (
+                <>
+                  <ResultRow
+                    label="최대 수량"
+                    value={results.isValid ? `${results.totalQuantity.toLocaleString()} 장` : '-'}
+                    highlight={true}
+                  />
+                  <ResultRow
+                    label="시공 면적"
+                    value={results.isValid ? `${formatNumber(results.totalArea, 1)} m²` : '-'}
+                    subValue={results.isValid ? `${formatNumber(results.totalArea / PYEONG_TO_M2, 1)} 평` : undefined}
+                    highlight={true}
+                  />
+                  <ResultRow
+                    label="남는 금액"
+                    value={results.isValid ? `${results.budgetLeftover.toLocaleString()} 원` : '-'}
+                    subValue={budgetIncludesExtras ? '(할인·운임·부가세 반영)' : '(할인 후 데크재 기준)'}
+                  />
+                </>
+              )}
+
+              {mode === 'layout' && (
+                <>
+                  <ResultRow
+                    label="수량"
+                    value={results.isValid ? `${results.totalQuantity.toLocaleString()} 장` : '-'}
+                    subValue={results.layout ? `통판 ${results.layout.fullBoards.toLocaleString()}장 + 재단용 ${results.layout.cutBoards.toLocaleString()}장` : undefined}
+                    highlight={true}
+                  />
+                  <ResultRow
+                    label="시공 면적"
+                    value={results.layout ? `${formatNumber(results.layout.deckAreaM2, 1)} m²` : '-'}
+                    subValue={results.layout ? `${formatNumber(results.layout.deckAreaM2 / PYEONG_TO_M2, 1)} 평` : undefined}
+                    highlight={true}
+                  />
+                  {results.layout && (
+                    <ResultRow
+                      label="배치"
+                      value={`${results.layout.rows.toLocaleString()} 줄`}
+                      subValue={
+                        (results.layout.cutLength > 0 ? `줄당 통판 ${results.layout.fullBoardsPerRow}장 + ${results.layout.cutLength.toLocaleString()}mm 재단` : `줄당 통판 ${results.layout.fullBoardsPerRow}장`) +
+                        (results.layout.needsEndJoints ? ` · 이음 ${results.layout.jointsPerRow}곳/줄` : ' · 이음 없음')
+                      }
+                    />
+                  )}
+                </>
+              )}
+
+              {(lineItems.length > 0 || margin.discount > 0) && (
+                <>
+                  <ResultRow
+                    label="데크재"
+                    value={`${results.totalPrice.toLocaleString()} 원`}
+                  />
+                  {margin.discount > 0 && (
+                    <ResultRow
+                      label="할인"
+                      value={`-${margin.discount.toLocaleString()} 원`}
+                      subValue={describeDiscount(discount, margin.volumePercent)}
+                    />
+                  )}
+                  {lineItems.map((line) => (
+                    <ResultRow
+                      key={line.label}
+                      label={line.label}
+                      value={`${line.amount.toLocaleString()} 원`}
+                      subValue={line.detail}
+                    />
+                  ))}
+                </>
+              )}
+
               <ResultRow
                 label="총 자재비"
-                value={results.isValid ? `${results.totalPrice.toLocaleString()} 원` : '-'}
-                subValue="(부가세/운임 별도)"
+                value={results.isValid ? `${grandTotal.toLocaleString()} 원` : '-'}
+                subValue={showPricing ? undefined : '(부가세/운임 별도)'}
                 highlight={true}
               />
 
-              <button
-                onClick={handleSave}
-                disabled={!results.isValid}
-                className={`w-full mt-4 flex items-center justify-center gap-2 py-3.5 rounded-lg text-lg font-bold transition-colors shadow-lg active:scale-95 ${
-                  results.isValid 
-                    ? 'bg-[#004225] hover:opacity-90 text-white' 
-                    : 'bg-[#004225]/10 text-[#004225]/50 cursor-not-allowed shadow-none'
-                }`}
-              >
-                <SaveIcon />
-                저장하기
-              </button>
+              {labourLines.length > 0 && (
+                <>
+                  {labourLines.map((line) => (
+                    <ResultRow key={line.label} label={line.label} value={`${line.amount.toLocaleString()} 원`} subValue={line.detail} />
+                  ))}
+                  <ResultRow label="총 시공비" value={`${labourTotal.toLocaleString()} 원`} highlight={true} />
+                  {!showPricing && (
+                    <ResultRow
+                      label="합계"
+                      value={`${(grandTotal + labourTotal).toLocaleString()} 원`}
+                      subValue="(자재비 + 시공비, 부가세/운임 별도)"
+                      highlight={true}
+                    />
+                  )}
+                </>
+              )}
+
+              {showPricing && results.isValid && (
+                <>
+                  {pricing.freight > 0 && (
+                    <ResultRow label="운임" value={`${pricing.freight.toLocaleString()} 원`} subValue={describeFreight(freight)} />
+                  )}
+                  <ResultRow label="공급가액" value={`${pricing.supply.toLocaleString()} 원`} />
+                  {vatMode !== 'separate' && (
+                    <ResultRow label="부가세 (10%)" value={`${pricing.vat.toLocaleString()} 원`} />
+                  )}
+                  <ResultRow
+                    label="합계"
+                    value={`${pricing.total.toLocaleString()} 원`}
+                    subValue={describePriceNote(vatMode, pricing.freight)}
+                    highlight={true}
+                  />
+                </>
+              )}
+
+              {delivery && (
+                <>
+                  <ResultRow
+                    label="총 중량"
+                    value={`${Math.round(delivery.totalWeightKg).toLocaleString()} kg`}
+                    subValue={`장당 ${formatNumber(delivery.boardWeightKg, 1)}kg${selectedProduct ? '' : ' (솔리드 기준)'}`}
+                  />
+                  <ResultRow
+                    label="팔레트"
+                    value={`${delivery.pallets.toLocaleString()} 개`}
+                    subValue={`팔레트당 ${delivery.boardsPerPallet.toLocaleString()}장`}
+                  />
+                  <ResultRow
+                    label="차량"
+                    value={delivery.vehicle ? `${delivery.vehicle.label} ${delivery.trucks}대` : '별도 차량'}
+                    subValue={delivery.vehicle
+                      ? `적재함 ${formatNumber(delivery.vehicle.bedLengthMm / 1000, 1)}m · 적재 ${delivery.vehicle.payloadKg.toLocaleString()}kg`
+                      : `길이 ${length.toLocaleString()}mm는 적재함보다 깁니다`}
+                  />
+                </>
+              )}
+
+              {/* Internal only: saved cards hide this from exported images */}
+              {margin.grossProfit !== null && results.isValid && (
+                <div className="rounded-lg border border-dashed border-amber-300 bg-amber-50/50 p-4 space-y-1 text-base text-slate-600">
+                  <div className="text-xs font-bold text-amber-700">내부용 · 고객 견적서에는 표시되지 않습니다</div>
+                  <div className="flex justify-between">
+                    <span>원가 (매입가 {costSettings.costPerBoard.toLocaleString()}원 × {results.totalQuantity.toLocaleString()}장)</span>
+                    <span>{margin.cost.toLocaleString()}원</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>판매가 (할인 후)</span>
+                    <span>{margin.netSales.toLocaleString()}원</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-slate-800">
+                    <span>매출이익{margin.marginPercent !== null ? ` (${formatNumber(margin.marginPercent, 1)}%)` : ''}</span>
+                    <span className={margin.grossProfit < 0 ? 'text-red-500' : ''}>{margin.grossProfit.toLocaleString()}원</span>
+                  </div>
+                </div>
+              )}
+
+              {editingItem ? (
+                <>
+                  <div className="mt-4 text-sm text-slate-500">
+                    편집 중: <span className="font-bold text-[#004225]">{editingItem.title}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleOverwrite}
+                      disabled={!results.isValid}
+                      className={`flex-1 flex items-center justify-center gap-2 py-3.5 rounded-lg text-lg font-bold transition-colors shadow-lg active:scale-95 ${
+                        results.isValid
+                          ? 'bg-[#004225] hover:opacity-90 text-white'
+                          : 'bg-[#004225]/10 text-[#004225]/50 cursor-not-allowed shadow-none'
+                      }`}
+                    >
+                      <SaveIcon />
+                      덮어쓰기
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={!results.isValid}
+                      className={`flex-1 py-3.5 rounded-lg text-lg font-bold border transition-colors active:scale-95 ${
+                        results.isValid
+                          ? 'border-[#004225] text-[#004225] hover:bg-[#004225]/5'
+                          : 'border-[#004225]/10 text-[#004225]/40 cursor-not-allowed'
+                      }`}
+                    >
+                      사본으로 저장
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="w-full text-sm text-slate-400 hover:text-slate-600 underline"
+                  >
+                    편집 종료
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={handleSave}
+                  disabled={!results.isValid}
+                  className={`w-full mt-4 flex items-center justify-center gap-2 py-3.5 rounded-lg text-lg font-bold transition-colors shadow-lg active:scale-95 ${
+                    results.isValid 
+                      ? 'bg-[#004225] hover:opacity-90 text-white' 
+                      : 'bg-[#004225]/10 text-[#004225]/50 cursor-not-allowed shadow-none'
+                  }`}
+                >
+                  <SaveIcon />
+                  저장하기
+                </button>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={handlePinSpec}
+                  disabled={pinnedSpecs.length >= MAX_PINNED_SPECS}
+                  className="flex-1 py-2.5 rounded-lg text-base font-bold border border-[#004225]/20 text-[#004225]/70 hover:text-[#004225] disabled:opacity-40"
+                >
+                  현재 규격 비교에 추가 ({pinnedSpecs.length}/{MAX_PINNED_SPECS})
+                </button>
+                <button
+                  onClick={() => handleCopyLink({ thickness, width, length, unitPrice: quotedPrice, priceBasis, mode, inputValue, customTitle, deckWidth, deckDepth, boardDirection })}
+                  className="flex items-center gap-1 px-3 py-2.5 rounded-lg text-base font-bold border border-[#004225]/20 text-[#004225]/70 hover:text-[#004225]"
+                  title="현재 계산을 링크로 복사"
+                >
+                  <LinkIcon />
+                  링크 복사
+                </button>
+              </div>
+              {activeProject && (
+                <button
+                  onClick={handleSaveToProject}
+                  disabled={!results.isValid}
+                  className={`w-full flex items-center justify-center gap-2 py-3 rounded-lg text-base font-bold border transition-colors active:scale-95 ${
+                    results.isValid
+                      ? 'border-[#004225] text-[#004225] hover:bg-[#004225]/5'
+                      : 'border-[#004225]/10 text-[#004225]/40 cursor-not-allowed'
+                  }`}
+                >
+                  <PlusIcon />
+                  프로젝트에 추가: {activeProject.title}
+                </button>
+              )}
             </section>
+
+            {/* 10. Spec Comparison */}
+            {pinnedSpecs.length > 0 && (
+              <section className="space-y-2 pt-2 border-t border-[#004225]/10">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-base font-bold text-slate-500">규격 비교</h3>
+                  <button onClick={() => setPinnedSpecs([])} className="text-sm text-red-400 hover:text-red-600 underline">
+                    비우기
+                  </button>
+                </div>
+                {comparison ? (
+                  <>
+                    <SpecComparisonTable comparison={comparison} onRemove={handleUnpinSpec} />
+                    <div className="text-xs text-slate-400">* 위에 입력한 면적·할증·줄눈 조건으로 계산합니다.</div>
+                  </>
+                ) : (
+                  <div className="text-sm text-slate-400">
+                    규격을 바꾼 뒤 "현재 규격 비교에 추가"를 눌러 {MIN_PINNED_SPECS}개 이상 고르면 비교표가 표시됩니다. (현재 {pinnedSpecs.length}개)
+                  </div>
+                )}
+              </section>
+            )}
           </div>
         </div>
         
+        {/* Retention & Backup */}
+        <div className="w-full px-1 space-y-2">
+          <div className="flex items-center justify-between">
+            <label htmlFor="retention" className="text-base font-bold text-slate-500">견적 보관 기간</label>
+            <select
+              id="retention"
+              value={storageSettings.retentionDays ?? 'forever'}
+              onChange={(e) => setStorageSettings({ retentionDays: e.target.value === 'forever' ? null : Number(e.target.value) })}
+              className="rounded-md border border-[#004225]/20 bg-white py-1.5 px-2 text-base text-slate-700 focus:border-[#004225] focus:outline-none"
+            >
+              {RETENTION_OPTIONS.map(opt => (
+                <option key={opt.label} value={opt.days ?? 'forever'}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="text-xs text-slate-400">* 마지막 수정일 기준이며, 고정한 견적은 만료되지 않습니다.</div>
+          <button
+            onClick={() => setIsBusinessOpen(open => !open)}
+            className="w-full flex items-center justify-between text-base font-bold text-slate-500"
+          >
+            <span>사업자 정보</span>
+            <span className="text-sm font-normal text-slate-400">{isBusinessOpen ? '접기' : describeBusiness(business) || '입력'}</span>
+          </button>
+          {isBusinessOpen && (
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['companyName', '상호', '데크센터'],
+                ['registrationNumber', '사업자등록번호', '000-00-00000'],
+                ['contactName', '담당자', '홍길동'],
+                ['phone', '전화', '031-000-0000'],
+              ] as [keyof BusinessDetails, string, string][]).map(([key, label, placeholder]) => (
+                <div key={key}>
+                  <label className="block text-sm font-bold text-slate-500 mb-1">{label}</label>
+                  <input
+                    type="text"
+                    value={business[key]}
+                    onChange={(e) => setBusiness(prev => ({ ...prev, [key]: e.target.value }))}
+                    placeholder={placeholder}
+                    className="w-full rounded-md border border-[#004225]/20 bg-white py-1.5 px-2 text-base text-slate-900 focus:border-[#004225] focus:outline-none placeholder:text-slate-300"
+                  />
+                </div>
+              ))}
+              <div className="col-span-2 text-xs text-slate-400">* 새로 저장하는 견적과 PDF 견적서에 표시됩니다.</div>
+            </div>
+          )}
+          {storageError && <div className="text-sm text-red-500">{storageError}</div>}
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => downloadFile('\uFEFF' + savedItemsToCsv(savedItems), '데크_견적목록.csv', 'text/csv;charset=utf-8')}
+              disabled={savedItems.length === 0}
+              className="py-2 text-sm font-bold rounded-md bg-[#004225]/10 text-[#004225]/70 hover:text-[#004225] disabled:opacity-40"
+            >
+              엑셀(CSV)
+            </button>
+            <button
+              onClick={() => downloadFile(savedItemsToJson(savedItems), `데크_견적백업_${formatDate(Date.now()).replace(/[^0-9]/g, '')}.json`, 'application/json')}
+              disabled={savedItems.length === 0}
+              className="py-2 text-sm font-bold rounded-md bg-[#004225]/10 text-[#004225]/70 hover:text-[#004225] disabled:opacity-40"
+            >
+              JSON 백업
+            </button>
+            <label className={`py-2 text-sm font-bold rounded-md bg-[#004225] text-white text-center hover:opacity-90 ${isSavedItemsLoaded ? 'cursor-pointer' : 'opacity-40 pointer-events-none'}`}>
+              백업 가져오기
+              <input type="file" accept=".json,application/json" onChange={handleBackupImport} disabled={!isSavedItemsLoaded} className="hidden" />
+            </label>
+          </div>
+          {backupMessage && (
+            <div className="text-sm">
+              <div className="text-slate-600">{backupMessage.text}</div>
+              {backupMessage.errors.slice(0, 5).map((error) => (
+                <div key={error} className="text-red-500">{error}</div>
+              ))}
+              {backupMessage.errors.length > 5 && (
+                <div className="text-red-500">외 {backupMessage.errors.length - 5}건</div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Projects */}
+        <div className="w-full">
+          <div className="flex items-center justify-between mb-2 px-1">
+            <h3 className="text-lg font-bold text-slate-700">프로젝트 견적</h3>
+          </div>
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={newProjectTitle}
+              onChange={(e) => setNewProjectTitle(e.target.value)}
+              placeholder="현장명 또는 고객명"
+              className="flex-1 rounded-lg border border-[#004225]/20 bg-white py-2.5 px-3 text-base text-slate-900 focus:border-[#004225] focus:outline-none placeholder:text-slate-300"
+            />
+            <button
+              onClick={handleCreateProject}
+              className="px-4 rounded-lg bg-[#004225] text-white text-base font-bold hover:opacity-90"
+            >
+              새 프로젝트
+            </button>
+          </div>
+          <div className="space-y-4">
+            {projects.map((project) => (
+              <ProjectCard
+                key={project.id}
+                project={project}
+                isActive={project.id === activeProjectId}
+                expiresInDays={daysUntilExpiry(project, storageSettings.retentionDays)}
+                onToggleActive={handleToggleProject}
+                onRemoveLine={handleRemoveProjectLine}
+                onTogglePin={handleToggleProjectPin}
+                onExportPdf={handlePdfProject}
+                onDownload={handleDownload}
+                onDelete={handleDeleteProject}
+              />
+            ))}
+          </div>
+        </div>
+
         {/* Saved List - Lazy Loaded */}
         {savedItems.length > 0 && (
           <div className="w-full animate-fade-in-up" ref={savedListRef}>
             <div className="flex items-center justify-between mb-2 px-1">
               <h3 className="text-lg font-bold text-slate-700">저장된 견적</h3>
-              <button 
-                onClick={() => setSavedItems([])}
-                className="text-sm text-red-400 hover:text-red-600 underline"
-              >
-                전체 삭제
-              </button>
+              <div className="flex gap-3">
+                <button
+                  onClick={handlePdfAll}
+                  className="text-sm text-[#004225]/70 hover:text-[#004225] underline"
+                >
+                  전체 PDF
+                </button>
+                <button 
+                  onClick={() => {
+                    setSavedItems([]);
+                    setEditingId(null);
+                  }}
+                  className="text-sm text-red-400 hover:text-red-600 underline"
+                >
+                  전체 삭제
+                </button>
+              </div>
             </div>
             
             <div className="space-y-4">
@@ -789,14 +3081,39 @@ const App: React.FC = () => {
                 <SavedItemCard 
                   key={item.id} 
                   item={item} 
+                  isEditing={item.id === editingId}
+                  expiresInDays={daysUntilExpiry(item, storageSettings.retentionDays)}
                   onDownload={handleDownload} 
                   onDelete={handleDelete} 
+                  onOpen={handleOpenSaved}
+                  onRename={handleRename}
+                  onTogglePin={handleTogglePin}
+                  onExportPdf={handlePdfItem}
+                  onCopyLink={handleCopyItemLink}
+                  onAddToProject={activeProjectId !== null ? handleAddToProject : undefined}
                 />
               ))}
             </div>
           </div>
         )}
 
+        {toast && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-full bg-slate-800/90 px-4 py-2 text-sm font-bold text-white shadow-lg">
+            {toast}
+          </div>
+        )}
+
+        {pdfTarget && (
+          <QuotePdfDialog
+            title={pdfTarget.title}
+            itemCount={pdfTarget.items.length}
+            initialCustomer={pdfTarget.items.length === 1 ? pdfTarget.items[0].customer : undefined}
+            initialValidDays={pdfTarget.items.length === 1 && pdfTarget.items[0].validUntil ? remainingValidDays(pdfTarget.items[0].validUntil) : undefined}
+            onGenerate={handleGeneratePdf}
+            onClose={() => setPdfTarget(null)}
+          />
+        )}
+
         {/* Footer */}
         <footer className="pt-6 pb-12 px-2 text-left space-y-2">
           <p className="text-sm text-slate-500 leading-relaxed break-keep">
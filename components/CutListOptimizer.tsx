@@ -0,0 +1,146 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import {
+  CutPiece,
+  DEFAULT_CUT_OPTIONS,
+  MAX_CUT_PIECES,
+  StockOption,
+  compareCutPlans,
+  countCutPieces,
+  parseCutList,
+} from '../utils/cutlist';
+
+/**
+ * Compares stock lengths for a set of required runs: boards per length, the
+ * cut plan, reusable offcuts and waste, cheapest alternative first.
+ */
+const CutListOptimizer = ({
+  layoutPieces,
+  stock,
+  onApplyLength,
+}: {
+  /** Runs from the width × depth layout, if one is entered. */
+  layoutPieces: CutPiece[] | null;
+  stock: StockOption[];
+  onApplyLength: (length: number) => void;
+}) => {
+  const [source, setSource] = useState<'layout' | 'manual'>(layoutPieces ? 'layout' : 'manual');
+  const [manualText, setManualText] = useState('4200x10');
+  const [expanded, setExpanded] = useState<number | null>(0);
+
+  const manualPieces = useMemo(() => parseCutList(manualText), [manualText]);
+  const pieces = source === 'layout' && layoutPieces ? layoutPieces : manualPieces;
+
+  // The shortest stock splits long runs into the most pieces
+  const shortestStock = stock.length ? Math.min(...stock.map((s) => s.length)) : 0;
+  const tooMany = !!pieces && countCutPieces(pieces, shortestStock) > MAX_CUT_PIECES;
+
+  // Planning can take a moment, so typing stays responsive while it catches up
+  const deferredPieces = useDeferredValue(tooMany ? null : pieces);
+  const plans = useMemo(() => (deferredPieces ? compareCutPlans(deferredPieces, stock, DEFAULT_CUT_OPTIONS) : []), [deferredPieces, stock]);
+  const leastWaste = plans.length ? Math.min(...plans.map((p) => p.wastePercent)) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        {([['layout', '가로×세로 배치'], ['manual', '직접 입력']] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setSource(key)}
+            disabled={key === 'layout' && !layoutPieces}
+            className={`flex-1 py-2 text-sm font-bold rounded-md border transition-all disabled:opacity-40 ${
+              source === key
+                ? 'bg-[#004225] border-[#004225] text-white'
+                : 'bg-white border-[#004225]/20 text-[#004225]/60 hover:text-[#004225]'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {source === 'layout' && layoutPieces ? (
+        <div className="text-sm text-slate-500">
+          {layoutPieces.map((p) => `${p.length.toLocaleString()}mm × ${p.count}줄`).join(', ')}
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-bold text-slate-500 mb-1">필요 길이 × 수량 (한 줄에 하나, mm)</label>
+          <textarea
+            value={manualText}
+            onChange={(e) => setManualText(e.target.value)}
+            rows={3}
+            placeholder={'4200x10\n1800x4'}
+            className="w-full rounded-md border border-[#004225]/20 p-2 text-sm font-mono text-slate-700 focus:border-[#004225] focus:outline-none"
+          />
+          {!manualPieces && <div className="text-sm text-red-500">"4200x10" 형식으로 입력하세요.</div>}
+        </div>
+      )}
+      {tooMany && (
+        <div className="text-sm text-red-500">재단 조각이 너무 많습니다. 최대 {MAX_CUT_PIECES.toLocaleString()}개까지 계산합니다.</div>
+      )}
+
+      {plans.length > 0 && (
+        <table className="w-full text-sm text-slate-600">
+          <thead>
+            <tr className="text-slate-400 border-b border-slate-200">
+              <th className="text-left py-1 font-medium">원자재</th>
+              <th className="text-right py-1 font-medium">수량</th>
+              <th className="text-right py-1 font-medium">로스</th>
+              <th className="text-right py-1 font-medium">금액</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plans.map((plan, i) => (
+              <React.Fragment key={plan.stockLength ?? 'mixed'}>
+                <tr
+                  onClick={() => setExpanded(expanded === i ? null : i)}
+                  className={`cursor-pointer border-b border-slate-100 ${i === 0 ? 'bg-[#004225]/5 font-bold text-[#004225]' : ''}`}
+                >
+                  <td className="py-1.5">
+                    {plan.stockLength ? `${plan.stockLength.toLocaleString()}mm` : '혼합'}
+                    {i === 0 && <span className="ml-1 text-xs">최저가</span>}
+                    {plan.wastePercent === leastWaste && <span className="ml-1 text-xs text-slate-400">최소로스</span>}
+                  </td>
+                  <td className="text-right">
+                    {plan.boardsByLength.map((b) => (plan.stockLength ? `${b.count}장` : `${b.length / 1000}m×${b.count}`)).join(' + ')}
+                  </td>
+                  <td className="text-right">{plan.wastePercent.toFixed(1)}%</td>
+                  <td className="text-right whitespace-nowrap">{plan.totalPrice.toLocaleString()}원</td>
+                </tr>
+                {expanded === i && (
+                  <tr>
+                    <td colSpan={4} className="py-2 pl-2 text-xs text-slate-500 space-y-0.5">
+                      {plan.patterns.map((pattern, j) => (
+                        <div key={j}>
+                          {pattern.stockLength.toLocaleString()} → {pattern.cuts.map((c) => c.toLocaleString()).join(' + ')}
+                          {pattern.offcut > 0 && <span className="text-slate-400"> (자투리 {pattern.offcut.toLocaleString()})</span>}
+                          {' '}× {pattern.count}장
+                        </div>
+                      ))}
+                      {plan.reusableOffcuts.length > 0 && (
+                        <div className="text-[#004225]">재사용 자투리 {plan.reusableOffcuts.length}개 (최대 {plan.reusableOffcuts[0].toLocaleString()}mm)</div>
+                      )}
+                      {plan.stockLength && (
+                        <button
+                          onClick={() => onApplyLength(plan.stockLength!)}
+                          className="mt-1 font-bold text-[#004225] underline"
+                        >
+                          {plan.stockLength.toLocaleString()}mm 길이로 적용
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="text-xs text-slate-400">
+        * 톱날 {DEFAULT_CUT_OPTIONS.kerfMm}mm 반영, {DEFAULT_CUT_OPTIONS.minReusableMm}mm 이상 자투리는 재사용으로 표시합니다.
+      </div>
+    </div>
+  );
+};
+
+export default CutListOptimizer;
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { BoardDirection } from '../utils/layout';
+import {
+  DeckOutline,
+  OUTLINE_PRESETS,
+  formatVertexList,
+  getBounds,
+  outlineAreaM2,
+  outlinePerimeterM,
+  outlineToPath,
+  parseVertexList,
+} from '../utils/polygon';
+
+const SNAP_MM = 100;
+const EMPTY_CANVAS_MM = 10000;
+
+/**
+ * Polygon outline editor. Vertices are typed as "x,y" pairs in mm or added by
+ * clicking the preview, and the boards of the selected width are drawn over
+ * the outline so the customer can see the layout. Clicking on a preset or on
+ * text that does not parse starts a new outline.
+ */
+const DeckShapeEditor = ({
+  boardWidth,
+  direction,
+  onApply,
+  onClose,
+}: {
+  boardWidth: number;
+  direction: BoardDirection;
+  onApply: (areaM2: number, perimeterM: number) => void;
+  onClose: () => void;
+}) => {
+  const [outerText, setOuterText] = useState(OUTLINE_PRESETS[1].outer);
+  const [holesText, setHolesText] = useState('');
+
+  const parsed = useMemo(() => {
+    const outer = parseVertexList(outerText);
+    const holeLines = holesText.split('\n').filter((line) => line.trim());
+    const holes = holeLines.map(parseVertexList);
+    if (!outer || holes.some((h) => !h)) return null;
+    const outline: DeckOutline = { outer, holes: holes as DeckOutline['holes'] };
+    return {
+      outline,
+      isValid: outer.length >= 3 && holes.every((h) => h!.length >= 3) && outlineAreaM2(outline) > 0,
+      areaM2: outlineAreaM2(outline),
+      perimeterM: outlinePerimeterM(outline),
+    };
+  }, [outerText, holesText]);
+
+  // Keep the empty canvas in view until the outline has an area, so the first clicks have room
+  const pointBounds = parsed && getBounds(parsed.outline.outer);
+  const bounds = pointBounds && parsed.outline.outer.length >= 3
+    ? pointBounds
+    : {
+        minX: Math.min(0, pointBounds?.minX ?? 0),
+        minY: Math.min(0, pointBounds?.minY ?? 0),
+        maxX: Math.max(EMPTY_CANVAS_MM, pointBounds?.maxX ?? 0),
+        maxY: Math.max(EMPTY_CANVAS_MM, pointBounds?.maxY ?? 0),
+      };
+  const spanX = Math.max(bounds.maxX - bounds.minX, SNAP_MM);
+  const spanY = Math.max(bounds.maxY - bounds.minY, SNAP_MM);
+  const pad = Math.max(spanX, spanY) * 0.08;
+  const viewBox = `${bounds.minX - pad} ${bounds.minY - pad} ${spanX + pad * 2} ${spanY + pad * 2}`;
+  const stroke = Math.max(spanX, spanY) / 200;
+
+  const boardStripes = useMemo(() => {
+    if (boardWidth <= 0) return [];
+    const across = direction === 'width' ? spanY : spanX;
+    const count = Math.min(Math.ceil(across / boardWidth), 500);
+    return Array.from({ length: count }, (_, i) => i * boardWidth);
+  }, [boardWidth, direction, spanX, spanY]);
+
+  const handleCanvasClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const svg = e.currentTarget;
+    const ctm = svg.getScreenCTM();
+    if (!ctm) return;
+    const pt = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    const x = Math.round(pt.x / SNAP_MM) * SNAP_MM;
+    const y = Math.round(pt.y / SNAP_MM) * SNAP_MM;
+    const isPreset = OUTLINE_PRESETS.some((preset) => preset.outer === outerText);
+    const points = (!isPreset && parseVertexList(outerText)) || [];
+    setOuterText(formatVertexList([...points, { x, y }]));
+  };
+
+  return (
+    <div className="rounded-lg border border-[#004225]/20 bg-white p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-base font-bold text-slate-700">도형 편집</span>
+        <div className="flex gap-1">
+          {OUTLINE_PRESETS.map((preset) => (
+            <button
+              key={preset.label}
+              onClick={() => setOuterText(preset.outer)}
+              className="px-2 py-1 text-xs font-bold rounded-md bg-[#004225]/10 text-[#004225]/70 hover:text-[#004225]"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setOuterText('');
+              setHolesText('');
+            }}
+            className="px-2 py-1 text-xs font-bold rounded-md bg-slate-100 text-slate-500 hover:text-slate-700"
+          >
+            지우기
+          </button>
+        </div>
+      </div>
+
+      <svg
+        viewBox={viewBox}
+        className="w-full h-56 rounded-md bg-slate-50 border border-slate-200 cursor-crosshair"
+        onClick={handleCanvasClick}
+      >
+        {parsed && parsed.outline.outer.length >= 3 && (
+          <>
+            <defs>
+              <clipPath id="deck-outline-clip">
+                <path d={outlineToPath(parsed.outline)} clipRule="evenodd" />
+              </clipPath>
+            </defs>
+            <g clipPath="url(#deck-outline-clip)">
+              {boardStripes.map((offset, i) =>
+                direction === 'width' ? (
+                  <rect
+                    key={i}
+                    x={bounds.minX}
+                    y={bounds.minY + offset}
+                    width={spanX}
+                    height={boardWidth}
+                    fill={i % 2 === 0 ? '#8b6b4a' : '#a07d58'}
+                    stroke="#5c4630"
+                    strokeWidth={stroke / 3}
+                  />
+                ) : (
+                  <rect
+                    key={i}
+                    x={bounds.minX + offset}
+                    y={bounds.minY}
+                    width={boardWidth}
+                    height={spanY}
+                    fill={i % 2 === 0 ? '#8b6b4a' : '#a07d58'}
+                    stroke="#5c4630"
+                    strokeWidth={stroke / 3}
+                  />
+                )
+              )}
+            </g>
+            <path d={outlineToPath(parsed.outline)} fill="none" stroke="#004225" strokeWidth={stroke} fillRule="evenodd" />
+          </>
+        )}
+        {parsed?.outline.outer.map((p, i) => (
+          <circle key={i} cx={p.x} cy={p.y} r={stroke * 1.5} fill="#004225" />
+        ))}
+      </svg>
+
+      <div>
+        <label className="block text-sm font-bold text-slate-500 mb-1">외곽 꼭짓점 (x,y mm)</label>
+        <textarea
+          value={outerText}
+          onChange={(e) => setOuterText(e.target.value)}
+          rows={2}
+          className="w-full rounded-md border border-[#004225]/20 p-2 text-sm font-mono text-slate-700 focus:border-[#004225] focus:outline-none"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-bold text-slate-500 mb-1">제외 영역 (기둥 등, 한 줄에 하나)</label>
+        <textarea
+          value={holesText}
+          onChange={(e) => setHolesText(e.target.value)}
+          rows={2}
+          placeholder="1000,1000 1300,1000 1300,1300 1000,1300"
+          className="w-full rounded-md border border-[#004225]/20 p-2 text-sm font-mono text-slate-700 focus:border-[#004225] focus:outline-none placeholder:text-slate-300"
+        />
+      </div>
+
+      <div className="flex justify-between text-base text-slate-600">
+        <span>면적: {parsed?.isValid ? `${parsed.areaM2.toFixed(2)} m²` : '-'}</span>
+        <span>둘레: {parsed?.isValid ? `${parsed.perimeterM.toFixed(2)} m` : '-'}</span>
+      </div>
+      {!parsed && <div className="text-sm text-red-500">꼭짓점은 "x,y" 형식으로 입력하세요.</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onClose}
+          className="flex-1 py-2.5 rounded-lg text-base font-bold bg-[#004225]/10 text-[#004225]/70 hover:text-[#004225]"
+        >
+          닫기
+        </button>
+        <button
+          onClick={() => parsed?.isValid && onApply(parsed.areaM2, parsed.perimeterM)}
+          disabled={!parsed?.isValid}
+          className={`flex-1 py-2.5 rounded-lg text-base font-bold transition-colors ${
+            parsed?.isValid ? 'bg-[#004225] text-white hover:opacity-90' : 'bg-[#004225]/10 text-[#004225]/50 cursor-not-allowed'
+          }`}
+        >
+          면적 적용
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DeckShapeEditor;
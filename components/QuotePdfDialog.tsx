@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import type { QuoteCustomer } from '../types';
+import { DEFAULT_VALID_DAYS, EMPTY_CUSTOMER } from '../utils/quote';
+
+/**
+ * Asks for the customer and validity period before a PDF quotation is
+ * generated for `title` (a single saved item, a project or the whole list).
+ * Both start from what was entered with the estimate, when there is one.
+ */
+const QuotePdfDialog = ({
+  title,
+  itemCount,
+  initialCustomer = EMPTY_CUSTOMER,
+  initialValidDays = DEFAULT_VALID_DAYS,
+  onGenerate,
+  onClose,
+}: {
+  title: string;
+  itemCount: number;
+  initialCustomer?: QuoteCustomer;
+  initialValidDays?: number;
+  onGenerate: (customer: QuoteCustomer, validDays: number) => Promise<void>;
+  onClose: () => void;
+}) => {
+  const [customer, setCustomer] = useState<QuoteCustomer>(initialCustomer);
+  const [validDays, setValidDays] = useState(initialValidDays);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      await onGenerate(
+        { name: customer.name.trim(), site: customer.site.trim(), contact: customer.contact.trim() },
+        validDays
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const fields: [keyof QuoteCustomer, string, string][] = [
+    ['name', '고객명', '홍길동 / ○○건설'],
+    ['site', '현장', '경기도 김포시 ○○동 옥상'],
+    ['contact', '연락처', '010-0000-0000'],
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div className="w-full max-w-sm rounded-lg bg-white p-5 space-y-3 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <div className="text-lg font-bold text-slate-800">PDF 견적서</div>
+          <div className="text-sm text-slate-400">{title} · {itemCount}개 항목</div>
+        </div>
+
+        {fields.map(([key, label, placeholder]) => (
+          <div key={key}>
+            <label className="block text-sm font-bold text-slate-500 mb-1">{label}</label>
+            <input
+              type="text"
+              value={customer[key]}
+              onChange={(e) => setCustomer((prev) => ({ ...prev, [key]: e.target.value }))}
+              placeholder={placeholder}
+              className="w-full rounded-md border border-[#004225]/20 py-2 px-3 text-base text-slate-900 focus:border-[#004225] focus:outline-none placeholder:text-slate-300"
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-bold text-slate-500 mb-1">유효기간 (일)</label>
+          <input
+            type="number"
+            min={1}
+            value={validDays}
+            onChange={(e) => setValidDays(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            className="no-spinner w-full rounded-md border border-[#004225]/20 py-2 px-3 text-base text-slate-900 focus:border-[#004225] focus:outline-none"
+          />
+        </div>
+
+        <div className="flex gap-2 pt-1">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2.5 rounded-lg text-base font-bold bg-[#004225]/10 text-[#004225]/70 hover:text-[#004225]"
+          >
+            닫기
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="flex-1 py-2.5 rounded-lg text-base font-bold bg-[#004225] text-white hover:opacity-90 disabled:opacity-50"
+          >
+            {isGenerating ? '만드는 중…' : 'PDF 만들기'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuotePdfDialog;
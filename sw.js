@@ -0,0 +1,63 @@
+// Service worker. Built into dist/sw.js by the precache plugin in vite.config.ts,
+// which fills in PRECACHE below with the build's file list and version.
+const PRECACHE = self.__PRECACHE__;
+const CACHE_PREFIX = 'deck-calculator-';
+const CACHE = `${CACHE_PREFIX}${PRECACHE.version}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE).then(async (cache) => {
+      await cache.addAll(PRECACHE.urls);
+      await self.skipWaiting();
+    })
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = async (request, response) => {
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: network first so a new deploy is picked up, the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache('/', response))
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Hashed bundle files and public assets never change under the same URL
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request).then((response) => putInCache(request, response))));
+    return;
+  }
+
+  // Everything else: cached copy right away, refreshed in the background
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request)
+        .then((response) => putInCache(request, response))
+        .catch(() => cached);
+      return cached ?? network;
+    })
+  );
+});
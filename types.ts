@@ -0,0 +1,134 @@
+import type { CalcMode, PriceBasis } from './utils/estimate';
+import type { DeliveryPlan } from './utils/delivery';
+import type { EdgeSettings } from './utils/edges';
+import type { FastenerPrices } from './utils/fasteners';
+import type { BoardDirection } from './utils/layout';
+import type { LabourSettings } from './utils/labour';
+import type { LineItem } from './utils/lineItems';
+import type { CostSettings, DiscountSetting } from './utils/margin';
+import type { FreightSetting, PriceBreakdown, VatMode } from './utils/quote';
+import type { ProfileMaterial, SubstructurePrices } from './utils/substructure';
+
+// Our company as printed on quotes; entered once in settings.
+export interface BusinessDetails {
+  companyName: string;
+  registrationNumber: string;
+  contactName: string;
+  phone: string;
+}
+
+// Who a quote is addressed to.
+export interface QuoteCustomer {
+  name: string;
+  site: string;
+  contact: string;
+}
+
+// Everything entered in the calculator form, so a saved estimate can be loaded back.
+export interface CalculatorInputs {
+  customTitle: string;
+  thickness: number;
+  width: number;
+  length: number;
+  sku: string | null;
+  // Price as entered, per `priceBasis` unit. Missing basis means per board.
+  unitPrice: number;
+  priceBasis?: PriceBasis;
+  mode: CalcMode;
+  inputValue: string;
+  lossPercent: number;
+  gapMm: number;
+  overlapMm: number;
+  deckWidth: string;
+  deckDepth: string;
+  boardDirection: BoardDirection;
+  includeSubstructure: boolean;
+  profileMaterial: ProfileMaterial;
+  joistSpacing: number;
+  bearerSpacing: number;
+  postSpacing: number;
+  subPrices: SubstructurePrices;
+  includeFasteners: boolean;
+  fastenerPrices: FastenerPrices;
+  // Fascia and stairs, optional for inputs saved before they were estimated.
+  includeEdges?: boolean;
+  edges?: EdgeSettings;
+  vatMode: VatMode;
+  freight: FreightSetting;
+  // Optional for inputs saved before quotes carried customer details.
+  customer?: QuoteCustomer;
+  validDays?: number;
+  // Budget mode: whether freight and VAT come out of the budget. Missing means no.
+  budgetIncludesExtras?: boolean;
+  costSettings?: CostSettings;
+  discount?: DiscountSetting;
+  includeLabour?: boolean;
+  labour?: LabourSettings;
+}
+
+export interface SavedItem {
+  id: number;
+  title: string;
+  specs: {
+    t: number;
+    w: number;
+    l: number;
+  };
+  // Catalog product the spec was priced from, if any.
+  productName?: string;
+  inputLabel: string;
+  // Loss allowance (area modes). Optional for items saved before it existed.
+  lossPercent?: number;
+  netQuantity?: number;
+  // Board gap (줄눈) and tongue/groove overlap in mm; coverage per board depends on them.
+  gapMm?: number;
+  overlapMm?: number;
+  totalQuantity: number;
+  totalAreaM2: number;
+  totalPrice: number;
+  // Budget mode only: the amount entered and what was left after buying the boards.
+  budget?: number;
+  budgetLeftover?: number;
+  // Volume and quote discounts taken off the deck boards, e.g. "수량 할인 5%".
+  discount?: number;
+  discountLabel?: string;
+  // Purchase cost and gross profit on the deck boards. Internal only, never shown on customer exports.
+  margin?: { cost: number; grossProfit: number; marginPercent: number | null };
+  // Priced rows beyond the deck boards (substructure etc.), added to totalPrice for the grand total.
+  lineItems?: LineItem[];
+  // Installation and extra work, kept apart from materials.
+  labourItems?: LineItem[];
+  // Weight, pallets and truck for dispatch, including fascia and stair boards.
+  delivery?: DeliveryPlan;
+  // VAT and freight. Missing on older items, which were always "부가세 및 운임 별도".
+  vatMode?: VatMode;
+  freightLabel?: string;
+  pricing?: PriceBreakdown;
+  // Per board, derived from `basisPrice` when the price was quoted another way.
+  unitPrice: number;
+  // Price as the supplier quoted it, e.g. 50,000 per m². Missing on per-board prices.
+  priceBasis?: PriceBasis;
+  basisPrice?: number;
+  timestamp: number;
+  // Form state at save time. Missing on items saved before estimates could be reopened.
+  inputs?: CalculatorInputs;
+  // Pinned quotes are kept regardless of the retention period.
+  pinned?: boolean;
+  // Quotation details, e.g. "2026-10-0042". Missing on items saved before quotes were numbered.
+  quoteNumber?: string;
+  customer?: QuoteCustomer;
+  validUntil?: number;
+  // Company details as they were when the quote was saved.
+  business?: BusinessDetails;
+}
+
+// A quote grouping several calculations, e.g. main deck + fascia + stair treads.
+export interface Project {
+  id: number;
+  title: string;
+  items: SavedItem[];
+  timestamp: number;
+  pinned?: boolean;
+  // Given the first time the project is exported as a PDF, then reused.
+  quoteNumber?: string;
+}
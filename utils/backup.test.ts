@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import type { CalculatorInputs } from '../types';
+import { mergeSavedItems, parseSavedItemsJson, savedItemsToCsv, savedItemsToJson } from './backup';
+import { parseCsvRows } from './catalog';
+import { DEFAULT_FASTENER_PRICES } from './fasteners';
+import { DEFAULT_LABOUR } from './labour';
+import { DEFAULT_DISCOUNT } from './margin';
+import { DEFAULT_FREIGHT } from './quote';
+import { SCHEMA_VERSION } from './storage';
+import { savedItem } from './testFixtures';
+
+describe('savedItemsToCsv', () => {
+  it('writes one row of plain numbers per item', () => {
+    const csv = savedItemsToCsv([
+      savedItem({
+        title: '김포, 옥상',
+        quoteNumber: '2026-10-0042',
+        customer: { name: '홍길동', site: '김포시', contact: '' },
+        lineItems: [{ label: '장선', detail: '', amount: 30000 }],
+      }),
+    ]);
+    const [header, row] = parseCsvRows(csv);
+    const cell = (column: string) => row[header.indexOf(column)];
+    expect(header[0]).toBe('견적번호');
+    expect(row[0]).toBe('2026-10-0042');
+    expect(cell('제목')).toBe('김포, 옥상');
+    expect(cell('고객명')).toBe('홍길동');
+    expect([cell('두께(mm)'), cell('폭(mm)'), cell('길이(mm)')]).toEqual(['25', '150', '3000']);
+    expect(cell('데크재')).toBe('150000');
+    expect(cell('부자재')).toBe('30000');
+    expect(cell('합계')).toBe('180000');
+    expect(cell('원가')).toBe('');
+  });
+
+  it('keeps typed text from running as a spreadsheet formula', () => {
+    const csv = savedItemsToCsv([
+      savedItem({ title: '=HYPERLINK("http://x")', customer: { name: '@SUM(A1)', site: '+1', contact: '-1' }, margin: { cost: 200000, grossProfit: -50000, marginPercent: null } }),
+    ]);
+    const [header, row] = parseCsvRows(csv);
+    const cell = (column: string) => row[header.indexOf(column)];
+    expect(cell('제목')).toBe('\'=HYPERLINK("http://x")');
+    expect([cell('고객명'), cell('현장'), cell('연락처')]).toEqual(["'@SUM(A1)", "'+1", "'-1"]);
+    expect(cell('매출이익')).toBe('-50000');
+  });
+});
+
+describe('parseSavedItemsJson', () => {
+  it('round-trips a backup', () => {
+    const items = [savedItem(), savedItem({ id: 2, pinned: true })];
+    expect(parseSavedItemsJson(savedItemsToJson(items))).toEqual({ items, errors: [] });
+  });
+
+  it('accepts a bare array and reports invalid entries by position', () => {
+    const result = parseSavedItemsJson(JSON.stringify([savedItem(), { ...savedItem({ id: 2 }), specs: { t: 0, w: 150, l: 3000 } }, 'x']));
+    expect(result.items.map((i) => i.id)).toEqual([1]);
+    expect(result.errors).toEqual(['2번째 견적: 규격이 올바르지 않습니다.', '3번째 견적: 견적 형식이 아닙니다.']);
+  });
+
+  it('keeps later fields that are well formed', () => {
+    const inputs: CalculatorInputs = {
+      customTitle: '',
+      thickness: 25,
+      width: 150,
+      length: 3000,
+      sku: null,
+      unitPrice: 15000,
+      mode: 'quantity',
+      inputValue: '10',
+      lossPercent: 0,
+      gapMm: 5,
+      overlapMm: 0,
+      deckWidth: '',
+      deckDepth: '',
+      boardDirection: 'width',
+      includeSubstructure: false,
+      profileMaterial: 'steel',
+      joistSpacing: 400,
+      bearerSpacing: 1200,
+      postSpacing: 1200,
+      subPrices: { joist: 18000, bearer: 26000, post: 15000 },
+      includeFasteners: false,
+      fastenerPrices: DEFAULT_FASTENER_PRICES,
+      vatMode: 'add',
+      freight: DEFAULT_FREIGHT,
+      discount: DEFAULT_DISCOUNT,
+      labour: DEFAULT_LABOUR,
+    };
+    const item = savedItem({
+      inputs,
+      vatMode: 'add',
+      pricing: { materials: 150000, freight: 0, supply: 150000, vat: 15000, total: 165000 },
+      lineItems: [{ label: '장선', detail: '', amount: 30000 }],
+      margin: { cost: 100000, grossProfit: 50000, marginPercent: null },
+    });
+    expect(parseSavedItemsJson(JSON.stringify([item]))).toEqual({ items: [item], errors: [] });
+  });
+
+  it('drops malformed later fields and reports them, keeping the quote', () => {
+    const result = parseSavedItemsJson(
+      JSON.stringify([
+        {
+          ...savedItem(),
+          lineItems: [{ label: '장선', amount: '30000' }],
+          labourItems: 'x',
+          pricing: { materials: 150000, total: null },
+          vatMode: 'sometimes',
+          margin: { cost: 100000 },
+          inputs: { thickness: 25 },
+        },
+      ])
+    );
+    expect(result.items).toEqual([savedItem()]);
+    expect(result.errors).toEqual(['1번째 견적: 매출이익, 부자재, 시공비, 부가세 방식, 금액 내역, 입력값 항목이 올바르지 않아 제외했습니다.']);
+  });
+
+  it('rejects other files and backups from a newer version', () => {
+    expect(parseSavedItemsJson('{').errors).toEqual(['JSON 형식이 올바르지 않습니다.']);
+    expect(parseSavedItemsJson('{"products":[]}').items).toEqual([]);
+    const newer = JSON.stringify({ format: 'deck-calculator-backup', version: SCHEMA_VERSION + 1, savedItems: [savedItem()] });
+    expect(parseSavedItemsJson(newer).items).toEqual([]);
+  });
+});
+
+describe('mergeSavedItems', () => {
+  it('skips ids that already exist and sorts newest first', () => {
+    const existing = [savedItem({ id: 1, title: '기존', timestamp: 10 })];
+    const result = mergeSavedItems(existing, [savedItem({ id: 1, title: '백업', timestamp: 10 }), savedItem({ id: 2, timestamp: 20 })]);
+    expect(result.items.map((i) => [i.id, i.title])).toEqual([[2, '25T 150x3000'], [1, '기존']]);
+    expect(result.added).toBe(1);
+    expect(result.duplicates).toBe(1);
+  });
+});
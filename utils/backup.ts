@@ -0,0 +1,287 @@
+import type { CalculatorInputs, SavedItem } from '../types';
+import { csvEscape } from './catalog';
+import { DEFAULT_EDGES } from './edges';
+import { PYEONG_TO_M2 } from './estimate';
+import { DEFAULT_FASTENER_PRICES } from './fasteners';
+import { DEFAULT_LABOUR } from './labour';
+import { sumLineItems } from './lineItems';
+import { DEFAULT_COST_SETTINGS, DEFAULT_DISCOUNT } from './margin';
+import { DEFAULT_BUSINESS, DEFAULT_FREIGHT, getItemTotal } from './quote';
+import { SCHEMA_VERSION, migrateStoredData } from './storage';
+
+// --- Types ---
+
+/** JSON backup of saved quotes, for moving them between devices. */
+export interface SavedItemsBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  savedItems: SavedItem[];
+}
+
+export interface SavedItemsImportResult {
+  items: SavedItem[];
+  /** One message per rejected entry, e.g. "3번째 견적: 규격이 올바르지 않습니다." */
+  errors: string[];
+}
+
+export interface MergeResult {
+  items: SavedItem[];
+  added: number;
+  /** Entries whose id already exists; the copy on this device is kept. */
+  duplicates: number;
+}
+
+// --- Constants ---
+
+export const BACKUP_FORMAT = 'deck-calculator-backup';
+
+const SPREADSHEET_COLUMNS = [
+  '견적번호', '제목', '저장일시', '고객명', '현장', '연락처', '유효기간', '상호', '제품', '두께(mm)', '폭(mm)', '길이(mm)', '단가', '입력', '할증(%)', '수량(장)',
+  '면적(m²)', '면적(평)', '데크재', '할인', '부자재', '시공비', '운임', '공급가액', '부가세', '합계', '원가', '매출이익',
+] as const;
+
+/** Leading characters that make spreadsheets read a cell as a formula. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// --- Export ---
+
+const formatTimestamp = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+/** Typed text such as titles and customer names is quoted with ' so it cannot run as a formula. */
+const spreadsheetCell = (value: string | number) =>
+  csvEscape(typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+/**
+ * One row per saved quote with plain numbers (no separators or units), so
+ * spreadsheet formulas work on them. This is our own list, so it includes
+ * cost and gross profit where they were entered.
+ */
+export const savedItemsToCsv = (items: SavedItem[]) => {
+  const rows = items.map((item) => {
+    const pricing = item.pricing;
+    return [
+      item.quoteNumber ?? '',
+      item.title,
+      formatTimestamp(item.timestamp),
+      item.customer?.name ?? '',
+      item.customer?.site ?? '',
+      item.customer?.contact ?? '',
+      item.validUntil ? formatTimestamp(item.validUntil).slice(0, 10) : '',
+      item.business?.companyName ?? '',
+      item.productName ?? '',
+      item.specs.t,
+      item.specs.w,
+      item.specs.l,
+      item.unitPrice,
+      item.inputLabel,
+      item.lossPercent ?? 0,
+      item.totalQuantity,
+      Math.round(item.totalAreaM2 * 100) / 100,
+      Math.round((item.totalAreaM2 / PYEONG_TO_M2) * 10) / 10,
+      item.totalPrice,
+      item.discount ?? 0,
+      sumLineItems(item.lineItems),
+      sumLineItems(item.labourItems),
+      pricing?.freight ?? 0,
+      pricing?.supply ?? getItemTotal(item),
+      pricing?.vat ?? 0,
+      pricing?.total ?? getItemTotal(item),
+      item.margin?.cost ?? '',
+      item.margin?.grossProfit ?? '',
+    ];
+  });
+  return [SPREADSHEET_COLUMNS.join(','), ...rows.map((row) => row.map(spreadsheetCell).join(','))].join('\n');
+};
+
+export const savedItemsToJson = (items: SavedItem[], now: number = Date.now()) => {
+  const backup: SavedItemsBackup = { format: BACKUP_FORMAT, version: SCHEMA_VERSION, exportedAt: now, savedItems: items };
+  return JSON.stringify(backup, null, 2);
+};
+
+// --- Import ---
+
+type Check = (value: unknown) => boolean;
+
+const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isNumber: Check = (value) => typeof value === 'number' && Number.isFinite(value);
+const isString: Check = (value) => typeof value === 'string';
+const isBoolean: Check = (value) => typeof value === 'boolean';
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const optional = (check: Check): Check => (value) => value === undefined || check(value);
+const oneOf = (...values: string[]): Check => (value) => values.includes(value as string);
+const hasFields = (fields: Record<string, Check>): Check => (value) =>
+  isObject(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+/** Every field of `template` is present with the same type, e.g. a settings object against its defaults. */
+const shapedLike = (template: object): Check => (value) =>
+  isObject(value) &&
+  Object.entries(template).every(([key, expected]) =>
+    typeof expected === 'number' ? isNumber(value[key]) : typeof value[key] === typeof expected && Array.isArray(value[key]) === Array.isArray(expected)
+  );
+
+const isVatMode = oneOf('separate', 'add', 'included');
+const isLineItems: Check = (value) =>
+  Array.isArray(value) && value.every(hasFields({ label: isString, detail: isString, amount: isNumber }));
+
+const INPUT_FIELDS: Record<keyof CalculatorInputs, Check> = {
+  customTitle: isString,
+  thickness: isPositive,
+  width: isPositive,
+  length: isPositive,
+  sku: (value) => value === null || isString(value),
+  unitPrice: isAmount,
+  priceBasis: optional(oneOf('board', 'm2', 'pyeong', 'meter')),
+  mode: oneOf('quantity', 'area_m2', 'area_pyeong', 'layout', 'budget'),
+  inputValue: isString,
+  lossPercent: isNumber,
+  gapMm: isNumber,
+  overlapMm: isNumber,
+  deckWidth: isString,
+  deckDepth: isString,
+  boardDirection: oneOf('width', 'depth'),
+  includeSubstructure: isBoolean,
+  profileMaterial: oneOf('steel', 'aluminium'),
+  joistSpacing: isNumber,
+  bearerSpacing: isNumber,
+  postSpacing: isNumber,
+  subPrices: hasFields({ joist: isNumber, bearer: isNumber, post: isNumber }),
+  includeFasteners: isBoolean,
+  fastenerPrices: shapedLike(DEFAULT_FASTENER_PRICES),
+  includeEdges: optional(isBoolean),
+  edges: optional(shapedLike(DEFAULT_EDGES)),
+  vatMode: isVatMode,
+  freight: shapedLike(DEFAULT_FREIGHT),
+  customer: optional(hasFields({ name: isString, site: isString, contact: isString })),
+  validDays: optional(isNumber),
+  budgetIncludesExtras: optional(isBoolean),
+  costSettings: optional(shapedLike(DEFAULT_COST_SETTINGS)),
+  discount: optional(shapedLike(DEFAULT_DISCOUNT)),
+  includeLabour: optional(isBoolean),
+  labour: optional(shapedLike(DEFAULT_LABOUR)),
+};
+
+/** Fields added over time, with their name in error messages. One that fails its check is dropped rather than the whole quote. */
+const OPTIONAL_FIELDS: [keyof SavedItem, string, Check][] = [
+  ['productName', '제품명', isString],
+  ['lossPercent', '할증', isNumber],
+  ['netQuantity', '순소요 수량', isNumber],
+  ['gapMm', '줄눈', isNumber],
+  ['overlapMm', '겹침', isNumber],
+  ['budget', '예산', isNumber],
+  ['budgetLeftover', '남는 금액', isNumber],
+  ['discount', '할인', isNumber],
+  ['discountLabel', '할인 내용', isString],
+  ['margin', '매출이익', hasFields({ cost: isNumber, grossProfit: isNumber, marginPercent: (value) => value === null || isNumber(value) })],
+  ['lineItems', '부자재', isLineItems],
+  ['labourItems', '시공비', isLineItems],
+  [
+    'delivery',
+    '배송',
+    hasFields({
+      boardWeightKg: isNumber,
+      totalWeightKg: isNumber,
+      boardsPerPallet: isNumber,
+      pallets: isNumber,
+      vehicle: (value) => value === null || hasFields({ label: isString, payloadKg: isNumber, bedLengthMm: isNumber })(value),
+      trucks: isNumber,
+    }),
+  ],
+  ['vatMode', '부가세 방식', isVatMode],
+  ['freightLabel', '운임 내용', isString],
+  [
+    'pricing',
+    '금액 내역',
+    hasFields({ materials: isNumber, labour: optional(isNumber), freight: isNumber, supply: isNumber, vat: isNumber, total: isNumber }),
+  ],
+  ['priceBasis', '단가 기준', oneOf('board', 'm2', 'pyeong', 'meter')],
+  ['basisPrice', '기준 단가', isNumber],
+  ['inputs', '입력값', hasFields(INPUT_FIELDS)],
+  ['pinned', '고정', isBoolean],
+  ['quoteNumber', '견적번호', isString],
+  ['customer', '고객 정보', hasFields({ name: isString, site: isString, contact: isString })],
+  ['validUntil', '유효기간', isNumber],
+  ['business', '사업자 정보', shapedLike(DEFAULT_BUSINESS)],
+];
+
+/**
+ * Checks the fields every SavedItem has had since the first version; returns
+ * a Korean error message when one is wrong. Invalid later fields are left out
+ * and named in `dropped`.
+ */
+const validateItem = (raw: unknown, dropped: string[]): SavedItem | string => {
+  if (!raw || typeof raw !== 'object') return '견적 형식이 아닙니다.';
+  const item = raw as Partial<SavedItem>;
+  if (typeof item.id !== 'number') return 'id가 없습니다.';
+  if (typeof item.title !== 'string' || !item.title.trim()) return '제목이 없습니다.';
+  if (!item.specs || !isPositive(item.specs.t) || !isPositive(item.specs.w) || !isPositive(item.specs.l)) return '규격이 올바르지 않습니다.';
+  if (!isAmount(item.unitPrice)) return '단가가 올바르지 않습니다.';
+  if (!isAmount(item.totalQuantity) || !isAmount(item.totalAreaM2) || !isAmount(item.totalPrice)) return '수량 또는 금액이 올바르지 않습니다.';
+  if (typeof item.timestamp !== 'number') return '저장일시가 없습니다.';
+
+  const valid: Record<string, unknown> = { ...item, inputLabel: typeof item.inputLabel === 'string' ? item.inputLabel : '' };
+  for (const [key, label, check] of OPTIONAL_FIELDS) {
+    if (valid[key] === undefined || check(valid[key])) continue;
+    delete valid[key];
+    dropped.push(label);
+  }
+  return valid as unknown as SavedItem;
+};
+
+/**
+ * Parses a backup written by savedItemsToJson. A bare array of saved items is
+ * accepted too. Backups from a newer app version are rejected as a whole.
+ */
+export const parseSavedItemsJson = (text: string): SavedItemsImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { items: [], errors: ['JSON 형식이 올바르지 않습니다.'] };
+  }
+
+  let entries: unknown[];
+  if (Array.isArray(data)) {
+    entries = data;
+  } else if (data && typeof data === 'object' && (data as SavedItemsBackup).format === BACKUP_FORMAT) {
+    const migrated = migrateStoredData({ version: (data as SavedItemsBackup).version, savedItems: (data as SavedItemsBackup).savedItems });
+    if (!migrated) return { items: [], errors: ['더 새로운 버전에서 만든 백업입니다. 앱을 업데이트한 뒤 가져오세요.'] };
+    entries = migrated.savedItems;
+  } else {
+    return { items: [], errors: ['견적 백업 파일이 아닙니다.'] };
+  }
+
+  const items: SavedItem[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, i) => {
+    const dropped: string[] = [];
+    const result = validateItem(entry, dropped);
+    if (typeof result === 'string') {
+      errors.push(`${i + 1}번째 견적: ${result}`);
+      return;
+    }
+    items.push(result);
+    if (dropped.length > 0) errors.push(`${i + 1}번째 견적: ${dropped.join(', ')} 항목이 올바르지 않아 제외했습니다.`);
+  });
+  return { items, errors };
+};
+
+/** Adds `incoming` items whose id is not already saved, newest first. */
+export const mergeSavedItems = (existing: SavedItem[], incoming: SavedItem[]): MergeResult => {
+  const ids = new Set(existing.map((item) => item.id));
+  const added: SavedItem[] = [];
+  for (const item of incoming) {
+    if (ids.has(item.id)) continue;
+    ids.add(item.id);
+    added.push(item);
+  }
+  return {
+    items: [...existing, ...added].sort((a, b) => b.timestamp - a.timestamp),
+    added: added.length,
+    duplicates: incoming.length - added.length,
+  };
+};
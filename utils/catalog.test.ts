@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CATALOG,
+  catalogToCsv,
+  catalogToJson,
+  findProducts,
+  getLengthOptions,
+  getThicknessOptions,
+  getWidthOptions,
+  parseCatalogCsv,
+  parseCatalogJson,
+  parseCsvRows,
+} from './catalog';
+
+describe('default catalog', () => {
+  it('offers every standard spec once, at the original 15,000원', () => {
+    expect(DEFAULT_CATALOG).toHaveLength(80);
+    expect(findProducts(DEFAULT_CATALOG, { t: 25, w: 100, l: 2800 })).toHaveLength(1);
+    expect(DEFAULT_CATALOG.every((p) => p.price === 15000)).toBe(true);
+  });
+
+  it('uses unique SKUs', () => {
+    expect(new Set(DEFAULT_CATALOG.map((p) => p.sku)).size).toBe(DEFAULT_CATALOG.length);
+  });
+});
+
+describe('spec options', () => {
+  const catalog = [
+    { ...DEFAULT_CATALOG[0], sku: 'A', t: 19, w: 95, l: 2000 },
+    { ...DEFAULT_CATALOG[0], sku: 'B', t: 19, w: 95, l: 2400 },
+    { ...DEFAULT_CATALOG[0], sku: 'C', t: 30, w: 150, l: 3000 },
+  ];
+
+  it('offers the original spec options by default', () => {
+    expect(getThicknessOptions(DEFAULT_CATALOG)).toEqual([19, 20, 25, 30]);
+    expect(getWidthOptions(DEFAULT_CATALOG, 25)).toEqual([95, 100, 120, 140, 150]);
+    expect(getLengthOptions(DEFAULT_CATALOG, 19, 95)).toEqual([2000, 2400, 2800, 3000]);
+  });
+
+  it('only offers widths and lengths sold in the chosen spec', () => {
+    expect(getWidthOptions(catalog, 30)).toEqual([150]);
+    expect(getLengthOptions(catalog, 19, 95)).toEqual([2000, 2400]);
+  });
+
+  it('falls back to every option for a custom spec', () => {
+    expect(getWidthOptions(catalog, 22)).toEqual([95, 150]);
+    expect(getLengthOptions(catalog, 25, 133)).toEqual([2000, 2400, 3000]);
+  });
+});
+
+describe('CSV', () => {
+  it('round-trips the catalog', () => {
+    const { products, errors } = parseCatalogCsv(catalogToCsv(DEFAULT_CATALOG));
+    expect(errors).toEqual([]);
+    expect(products).toEqual(DEFAULT_CATALOG);
+  });
+
+  it('handles quoted cells, CRLF and a BOM', () => {
+    expect(parseCsvRows('a,"b, ""c"""\r\n1,2\r\n')).toEqual([
+      ['a', 'b, "c"'],
+      ['1', '2'],
+    ]);
+    const { products } = parseCatalogCsv('\uFEFFthickness,width,length,price,profile\n25,150,3000,16000,중공');
+    expect(products[0]).toMatchObject({ t: 25, w: 150, l: 3000, price: 16000, profile: 'hollow', sku: 'H25-150-3000' });
+  });
+
+  it('reports invalid rows by line number and keeps the rest', () => {
+    const { products, errors } = parseCatalogCsv(
+      'thickness,width,length,price,profile\n25,150,3000,16000,solid\n25,,3000,16000,solid\n25,150,3000,,solid'
+    );
+    expect(products).toHaveLength(1);
+    expect(errors).toEqual(['3행: 폭이 올바르지 않습니다.', '4행: 단가가 올바르지 않습니다.']);
+  });
+
+  it('numbers rows by their line in the file, past blank lines and quoted line breaks', () => {
+    const { errors } = parseCatalogCsv(
+      'thickness,width,length,price,profile,name\n\n25,150,3000,16000,solid,"두 줄\n이름"\n\n25,,3000,16000,solid,x'
+    );
+    expect(errors).toEqual(['6행: 폭이 올바르지 않습니다.']);
+  });
+});
+
+describe('JSON', () => {
+  it('round-trips the catalog', () => {
+    expect(parseCatalogJson(catalogToJson(DEFAULT_CATALOG)).products).toEqual(DEFAULT_CATALOG);
+  });
+
+  it('rejects malformed input', () => {
+    expect(parseCatalogJson('{').errors).toEqual(['JSON 형식이 올바르지 않습니다.']);
+    expect(parseCatalogJson('{}').errors).toEqual(['제품 목록(배열)이 아닙니다.']);
+    expect(parseCatalogJson('[{"t":25}]').errors).toEqual(['1행: 폭이 올바르지 않습니다.']);
+  });
+});
@@ -0,0 +1,210 @@
+import type { DeckSpec } from './estimate';
+
+// --- Types ---
+
+export type BoardProfile = 'solid' | 'hollow';
+
+export interface CatalogProduct {
+  sku: string;
+  name: string;
+  material: string;
+  profile: BoardProfile;
+  t: number;
+  w: number;
+  l: number;
+  /** Price per board. */
+  price: number;
+  color: string;
+}
+
+export interface CatalogImportResult {
+  products: CatalogProduct[];
+  /** One message per rejected row, e.g. "3행: 두께가 올바르지 않습니다." */
+  errors: string[];
+}
+
+// --- Constants ---
+
+export const PROFILE_LABELS: Record<BoardProfile, string> = {
+  solid: '솔리드',
+  hollow: '중공',
+};
+
+export const CSV_COLUMNS = ['sku', 'name', 'material', 'profile', 'thickness', 'width', 'length', 'price', 'color'] as const;
+
+/** Price every default board starts at, until a supplier price list is imported. */
+export const DEFAULT_BOARD_PRICE = 15000;
+
+/** The standard spec options (19–30T × 95–150 × 2000–3000), one unbranded board each. */
+export const DEFAULT_CATALOG: CatalogProduct[] = [19, 20, 25, 30].flatMap((t) =>
+  [95, 100, 120, 140, 150].flatMap((w) =>
+    [2000, 2400, 2800, 3000].map((l) => ({
+      sku: `S${t}-${w}-${l}`,
+      name: '합성목재',
+      material: 'WPC',
+      profile: 'solid' as const,
+      t,
+      w,
+      l,
+      price: DEFAULT_BOARD_PRICE,
+      color: '',
+    }))
+  )
+);
+
+// --- Spec options ---
+
+const distinctSorted = (values: number[]) => [...new Set(values)].sort((a, b) => a - b);
+
+export const getThicknessOptions = (catalog: CatalogProduct[]) => distinctSorted(catalog.map((p) => p.t));
+
+/** Widths sold in thickness `t`, or every width when `t` is not in the catalog. */
+export const getWidthOptions = (catalog: CatalogProduct[], t: number) => {
+  const matching = catalog.filter((p) => p.t === t);
+  return distinctSorted((matching.length ? matching : catalog).map((p) => p.w));
+};
+
+/** Lengths sold in `t` × `w`, or every length when that pair is not in the catalog. */
+export const getLengthOptions = (catalog: CatalogProduct[], t: number, w: number) => {
+  const matching = catalog.filter((p) => p.t === t && p.w === w);
+  return distinctSorted((matching.length ? matching : catalog).map((p) => p.l));
+};
+
+/** E.g. "합성목재 · 중공 · 월넛", leaving out empty parts. */
+export const describeProduct = (product: CatalogProduct, separator = ' · ') =>
+  [product.name, PROFILE_LABELS[product.profile], product.color].filter(Boolean).join(separator);
+
+export const findProducts = (catalog: CatalogProduct[], spec: DeckSpec) =>
+  catalog.filter((p) => p.t === spec.t && p.w === spec.w && p.l === spec.l);
+
+// --- Import / Export ---
+
+/** Quotes a CSV cell when it contains a comma, quote or newline. */
+export const csvEscape = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const catalogToCsv = (catalog: CatalogProduct[]) =>
+  [
+    CSV_COLUMNS.join(','),
+    ...catalog.map((p) => [p.sku, p.name, p.material, p.profile, p.t, p.w, p.l, p.price, p.color].map(csvEscape).join(',')),
+  ].join('\n');
+
+export const catalogToJson = (catalog: CatalogProduct[]) => JSON.stringify(catalog, null, 2);
+
+interface CsvRow {
+  cells: string[];
+  /** Line of the file the row starts on, counting from 1. */
+  line: number;
+}
+
+/** Non-blank rows of CSV text with the line each starts on, honouring double-quoted cells. */
+const splitCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      cell = '';
+      rowLine = ++line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push({ cells: row, line: rowLine });
+  }
+  return rows.filter((r) => r.cells.some((c) => c.trim()));
+};
+
+/** Splits CSV text into rows of cells, honouring double-quoted cells. Blank lines are skipped. */
+export const parseCsvRows = (text: string): string[][] => splitCsv(text).map((r) => r.cells);
+
+const toNumber = (value: unknown) => (value === undefined || value === null || value === '' ? NaN : Number(value));
+
+/** Validates one raw record; returns the product or a Korean error message. */
+const toProduct = (raw: Record<string, unknown>): CatalogProduct | string => {
+  const t = toNumber(raw.thickness ?? raw.t);
+  const w = toNumber(raw.width ?? raw.w);
+  const l = toNumber(raw.length ?? raw.l);
+  const price = toNumber(raw.price);
+  const profile = raw.profile === 'hollow' || raw.profile === '중공' ? 'hollow' : raw.profile === 'solid' || raw.profile === '솔리드' ? 'solid' : null;
+
+  if (!(t > 0)) return '두께가 올바르지 않습니다.';
+  if (!(w > 0)) return '폭이 올바르지 않습니다.';
+  if (!(l > 0)) return '길이가 올바르지 않습니다.';
+  if (!(price >= 0)) return '단가가 올바르지 않습니다.';
+  if (!profile) return '형태는 solid 또는 hollow 여야 합니다.';
+
+  const name = String(raw.name ?? '').trim();
+  return {
+    sku: String(raw.sku ?? '').trim() || `${profile === 'hollow' ? 'H' : 'S'}${t}-${w}-${l}`,
+    name: name || `${t}T ${w}x${l}`,
+    material: String(raw.material ?? '').trim(),
+    profile,
+    t,
+    w,
+    l,
+    price,
+    color: String(raw.color ?? '').trim(),
+  };
+};
+
+/** `rowNumber` gives the row of the file each record came from, for error messages. */
+const collect = (records: Record<string, unknown>[], rowNumber: (index: number) => number): CatalogImportResult => {
+  const products: CatalogProduct[] = [];
+  const errors: string[] = [];
+  records.forEach((record, i) => {
+    const result = toProduct(record);
+    if (typeof result === 'string') errors.push(`${rowNumber(i)}행: ${result}`);
+    else products.push(result);
+  });
+  return { products, errors };
+};
+
+/** Parses a CSV price list whose first row names the columns in CSV_COLUMNS. */
+export const parseCatalogCsv = (text: string): CatalogImportResult => {
+  const [header, ...rows] = splitCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return { products: [], errors: ['빈 파일입니다.'] };
+  const keys = header.cells.map((h) => h.trim().toLowerCase());
+  const records = rows.map(({ cells }) => Object.fromEntries(keys.map((key, i) => [key, cells[i]?.trim()])));
+  return collect(records, (i) => rows[i].line);
+};
+
+/** Parses a JSON array as written by catalogToJson. */
+export const parseCatalogJson = (text: string): CatalogImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { products: [], errors: ['JSON 형식이 올바르지 않습니다.'] };
+  }
+  if (!Array.isArray(data)) return { products: [], errors: ['제품 목록(배열)이 아닙니다.'] };
+  return collect(data.map((d) => (d && typeof d === 'object' ? (d as Record<string, unknown>) : {})), (i) => i + 1);
+};
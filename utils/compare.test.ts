@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { compareSpecs } from './compare';
+
+const PINS = [
+  { id: 1, label: '25T 150', spec: { t: 25, w: 150, l: 3000 }, unitPrice: 15000 },
+  { id: 2, label: '20T 140', spec: { t: 20, w: 140, l: 3000 }, unitPrice: 12000 },
+  { id: 3, label: '25T 140', spec: { t: 25, w: 140, l: 2400 }, unitPrice: 11000 },
+];
+
+describe('compareSpecs', () => {
+  it('estimates every pin against the same target', () => {
+    const { columns } = compareSpecs(PINS, 'area_m2', 10);
+    expect(columns.map((c) => c.estimate.totalQuantity)).toEqual([23, 24, 30]);
+    expect(columns.map((c) => c.estimate.totalPrice)).toEqual([345000, 288000, 330000]);
+  });
+
+  it('marks the cheapest and least-waste options', () => {
+    const comparison = compareSpecs(PINS, 'area_m2', 10);
+    expect(comparison.cheapestId).toBe(2);
+    // 23 × 0.45 = 10.35 m² vs 24 × 0.42 = 10.08 m² vs 30 × 0.336 = 10.08 m²
+    expect(comparison.leastWasteId).toBe(2);
+    expect(comparison.columns[0].wastePercent).toBeCloseTo((0.35 / 10.35) * 100, 6);
+  });
+
+  it('has no winner when the target is invalid', () => {
+    const comparison = compareSpecs(PINS, 'area_m2', 0);
+    expect(comparison.cheapestId).toBeNull();
+    expect(comparison.columns.every((c) => !c.estimate.isValid)).toBe(true);
+  });
+});
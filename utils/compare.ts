@@ -0,0 +1,59 @@
+import { CalcMode, DeckSpec, EstimateOptions, EstimateResult, estimateDeck } from './estimate';
+
+// --- Types ---
+
+export interface PinnedSpec {
+  id: number;
+  label: string;
+  spec: DeckSpec;
+  unitPrice: number;
+}
+
+export interface ComparisonColumn {
+  pin: PinnedSpec;
+  estimate: EstimateResult;
+  /** Share of the covered area beyond the deck itself. */
+  wastePercent: number;
+}
+
+export interface SpecComparison {
+  columns: ComparisonColumn[];
+  cheapestId: number | null;
+  leastWasteId: number | null;
+}
+
+// --- Constants ---
+
+/** The comparison is shown from two pinned specs on. */
+export const MIN_PINNED_SPECS = 2;
+export const MAX_PINNED_SPECS = 4;
+
+// --- Calculations ---
+
+/**
+ * Runs the same target through estimateDeck for every pinned spec and marks
+ * the cheapest and least-waste options. Ties go to the earlier pin.
+ */
+export const compareSpecs = (
+  pins: PinnedSpec[],
+  mode: CalcMode,
+  amount: number,
+  options: EstimateOptions = {}
+): SpecComparison => {
+  const columns = pins.map((pin) => {
+    const estimate = estimateDeck(pin.spec, pin.unitPrice, mode, amount, options);
+    const wastePercent =
+      estimate.isValid && estimate.totalArea > 0 ? ((estimate.totalArea - estimate.deckAreaM2) / estimate.totalArea) * 100 : 0;
+    return { pin, estimate, wastePercent };
+  });
+
+  const valid = columns.filter((c) => c.estimate.isValid);
+  const pick = (score: (c: ComparisonColumn) => number) =>
+    valid.length ? valid.reduce((best, c) => (score(c) < score(best) ? c : best)).pin.id : null;
+
+  return {
+    columns,
+    cheapestId: pick((c) => c.estimate.totalPrice),
+    leastWasteId: pick((c) => c.wastePercent),
+  };
+};
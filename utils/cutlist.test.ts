@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_CUT_PIECES, compareCutPlans, countCutPieces, parseCutList, planMixedLengths, planSingleLength } from './cutlist';
+
+const NO_KERF = { kerfMm: 0, minReusableMm: 300 };
+
+describe('parseCutList', () => {
+  it('reads "length x count" lines', () => {
+    expect(parseCutList('4200x10\n1,800 × 2\n\n900')).toEqual([
+      { length: 4200, count: 10 },
+      { length: 1800, count: 2 },
+      { length: 900, count: 1 },
+    ]);
+  });
+
+  it('rejects malformed lines', () => {
+    expect(parseCutList('4200x')).toBeNull();
+    expect(parseCutList('abc')).toBeNull();
+  });
+});
+
+describe('planSingleLength', () => {
+  it('butt-joints long runs and shares remainders between boards', () => {
+    // 4200 runs on 3000 stock: one full board + 1200 each; two 1200s per board
+    const plan = planSingleLength([{ length: 4200, count: 10 }], { length: 3000, price: 15000 }, NO_KERF)!;
+    expect(plan.totalBoards).toBe(15);
+    expect(plan.totalPrice).toBe(15 * 15000);
+    expect(plan.reusableOffcuts).toEqual([600, 600, 600, 600, 600]);
+    expect(plan.wastePercent).toBeCloseTo((3000 / 45000) * 100, 10);
+    expect(plan.patterns.find((p) => p.cuts.length === 2)).toMatchObject({ cuts: [1200, 1200], offcut: 600, count: 5 });
+  });
+
+  it('reserves the kerf between cuts', () => {
+    const exact = planSingleLength([{ length: 1500, count: 2 }], { length: 3000, price: 1 }, NO_KERF)!;
+    const kerfed = planSingleLength([{ length: 1500, count: 2 }], { length: 3000, price: 1 }, { kerfMm: 3, minReusableMm: 300 })!;
+    expect(exact.totalBoards).toBe(1);
+    expect(kerfed.totalBoards).toBe(2);
+  });
+
+  it('returns null for an empty list', () => {
+    expect(planSingleLength([], { length: 3000, price: 1 })).toBeNull();
+  });
+});
+
+describe('planMixedLengths', () => {
+  it('puts short leftovers on shorter, cheaper boards', () => {
+    const stock = [
+      { length: 3000, price: 15000 },
+      { length: 2400, price: 12000 },
+    ];
+    // 4200 runs: 3000 + 1200; two 1200s fit a 2400 exactly
+    const plan = planMixedLengths([{ length: 4200, count: 10 }], stock, NO_KERF)!;
+    expect(plan.boardsByLength).toEqual([
+      { length: 3000, count: 10 },
+      { length: 2400, count: 5 },
+    ]);
+    expect(plan.wastePercent).toBe(0);
+    expect(plan.stockLength).toBeNull();
+  });
+});
+
+describe('compareCutPlans', () => {
+  it('lists every stock length and the mix, cheapest first', () => {
+    const stock = [
+      { length: 3000, price: 15000 },
+      { length: 2400, price: 12000 },
+    ];
+    const plans = compareCutPlans([{ length: 4200, count: 10 }], stock, NO_KERF);
+    expect(plans).toHaveLength(3);
+    expect(plans[0].stockLength).toBeNull();
+    expect(plans.map((p) => p.totalPrice)).toEqual([...plans.map((p) => p.totalPrice)].sort((a, b) => a - b));
+  });
+});
+
+describe('piece limit', () => {
+  it('counts pieces after splitting long runs', () => {
+    expect(countCutPieces([{ length: 4200, count: 10 }, { length: 900, count: 3 }], 3000)).toBe(23);
+  });
+
+  it('does not plan more than MAX_CUT_PIECES pieces', () => {
+    const pieces = [{ length: 1000, count: MAX_CUT_PIECES + 1 }];
+    expect(planSingleLength(pieces, { length: 3000, price: 15000 })).toBeNull();
+    expect(planMixedLengths(pieces, [{ length: 3000, price: 15000 }])).toBeNull();
+    expect(compareCutPlans(pieces, [{ length: 3000, price: 15000 }])).toEqual([]);
+  });
+});
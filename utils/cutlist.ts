@@ -0,0 +1,204 @@
+// --- Types ---
+
+/** A run of `count` identical pieces of `length` mm. */
+export interface CutPiece {
+  length: number;
+  count: number;
+}
+
+export interface StockOption {
+  length: number;
+  /** Price per board of this length. */
+  price: number;
+}
+
+export interface CutOptions {
+  /** Saw blade width lost at every cut, in mm. */
+  kerfMm: number;
+  /** Offcuts at least this long are kept for reuse rather than counted as scrap. */
+  minReusableMm: number;
+}
+
+export interface CutBoard {
+  stockLength: number;
+  cuts: number[];
+  offcut: number;
+}
+
+export interface CutPattern extends CutBoard {
+  /** Boards cut the same way. */
+  count: number;
+}
+
+export interface CutPlan {
+  /** Stock length for a single-length plan, null for a mixed plan. */
+  stockLength: number | null;
+  boardsByLength: { length: number; count: number }[];
+  patterns: CutPattern[];
+  totalBoards: number;
+  totalPrice: number;
+  /** Share of bought length that does not end up in a required piece. */
+  wastePercent: number;
+  reusableOffcuts: number[];
+}
+
+// --- Constants ---
+
+export const DEFAULT_CUT_OPTIONS: CutOptions = { kerfMm: 3, minReusableMm: 300 };
+
+/** Pieces beyond this are not planned; first-fit is quadratic and the UI replans on every keystroke. */
+export const MAX_CUT_PIECES = 500;
+
+// --- Parsing ---
+
+/**
+ * Parses a manual cut list, one "length x count" per line (e.g. "4200x10").
+ * A bare length counts once. Returns null if any line is malformed.
+ */
+export const parseCutList = (text: string): CutPiece[] | null => {
+  const pieces: CutPiece[] = [];
+  for (const line of text.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const match = line.replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*(?:[x×*]\s*(\d+))?$/i);
+    if (!match) return null;
+    pieces.push({ length: Number(match[1]), count: match[2] ? Number(match[2]) : 1 });
+  }
+  return pieces;
+};
+
+// --- Optimisation ---
+
+/** Pieces to cut once runs longer than `maxLength` are split, counted without building the list. */
+export const countCutPieces = (pieces: CutPiece[], maxLength: number) =>
+  pieces.reduce((sum, { length, count }) => {
+    if (!(length > 0) || !(count > 0) || !(maxLength > 0)) return sum;
+    const full = Math.floor(length / maxLength);
+    return sum + count * (full + (length - full * maxLength > 0 ? 1 : 0));
+  }, 0);
+
+/** Splits runs longer than `maxLength` into full-length pieces plus the remainder. */
+const explodePieces = (pieces: CutPiece[], maxLength: number) => {
+  const lengths: number[] = [];
+  for (const { length, count } of pieces) {
+    if (!(length > 0) || !(count > 0)) continue;
+    const full = Math.floor(length / maxLength);
+    const rest = length - full * maxLength;
+    for (let i = 0; i < count; i++) {
+      for (let j = 0; j < full; j++) lengths.push(maxLength);
+      if (rest > 0) lengths.push(rest);
+    }
+  }
+  return lengths.sort((a, b) => b - a);
+};
+
+const usedLength = (board: CutBoard, kerf: number) =>
+  board.cuts.reduce((sum, cut) => sum + cut, 0) + Math.max(0, board.cuts.length - 1) * kerf;
+
+const fits = (board: CutBoard, piece: number, kerf: number) =>
+  usedLength(board, kerf) + (board.cuts.length > 0 ? kerf : 0) + piece <= board.stockLength;
+
+/** Greedily fills one fresh board from `remaining` (sorted longest first) without modifying it. */
+const fillBoard = (stockLength: number, remaining: number[], kerf: number) => {
+  const board: CutBoard = { stockLength, cuts: [], offcut: 0 };
+  const taken: number[] = [];
+  remaining.forEach((piece, i) => {
+    if (fits(board, piece, kerf)) {
+      board.cuts.push(piece);
+      taken.push(i);
+    }
+  });
+  return { board, taken };
+};
+
+const summarize = (boards: CutBoard[], stock: StockOption[], stockLength: number | null, options: CutOptions): CutPlan => {
+  for (const board of boards) {
+    // Separating the offcut costs one more kerf
+    const leftover = board.stockLength - usedLength(board, options.kerfMm);
+    board.offcut = leftover > options.kerfMm ? leftover - options.kerfMm : 0;
+  }
+
+  const patternMap = new Map<string, CutPattern>();
+  for (const board of boards) {
+    const key = `${board.stockLength}:${board.cuts.join(',')}`;
+    const existing = patternMap.get(key);
+    if (existing) existing.count++;
+    else patternMap.set(key, { ...board, cuts: [...board.cuts], count: 1 });
+  }
+
+  const countMap = new Map<number, number>();
+  boards.forEach((b) => countMap.set(b.stockLength, (countMap.get(b.stockLength) ?? 0) + 1));
+  const boardsByLength = [...countMap.entries()].sort((a, b) => b[0] - a[0]).map(([length, count]) => ({ length, count }));
+
+  const priceOf = (length: number) => stock.find((s) => s.length === length)?.price ?? 0;
+  const bought = boards.reduce((sum, b) => sum + b.stockLength, 0);
+  const required = boards.reduce((sum, b) => sum + b.cuts.reduce((s, c) => s + c, 0), 0);
+
+  return {
+    stockLength,
+    boardsByLength,
+    patterns: [...patternMap.values()].sort((a, b) => b.count - a.count),
+    totalBoards: boards.length,
+    totalPrice: boards.reduce((sum, b) => sum + priceOf(b.stockLength), 0),
+    wastePercent: bought > 0 ? ((bought - required) / bought) * 100 : 0,
+    reusableOffcuts: boards.map((b) => b.offcut).filter((o) => o >= options.minReusableMm).sort((a, b) => b - a),
+  };
+};
+
+/**
+ * Cuts every piece from boards of one stock length using first-fit
+ * decreasing. Runs longer than the stock are butt-jointed from full boards.
+ * Returns null above `MAX_CUT_PIECES` pieces.
+ */
+export const planSingleLength = (pieces: CutPiece[], stock: StockOption, options: CutOptions = DEFAULT_CUT_OPTIONS): CutPlan | null => {
+  if (!(stock.length > 0) || countCutPieces(pieces, stock.length) > MAX_CUT_PIECES) return null;
+  const lengths = explodePieces(pieces, stock.length);
+  if (lengths.length === 0) return null;
+
+  const boards: CutBoard[] = [];
+  for (const piece of lengths) {
+    const board = boards.find((b) => fits(b, piece, options.kerfMm));
+    if (board) board.cuts.push(piece);
+    else boards.push({ stockLength: stock.length, cuts: [piece], offcut: 0 });
+  }
+  return summarize(boards, [stock], stock.length, options);
+};
+
+/**
+ * Cuts pieces from a mix of stock lengths. Each new board is the stock length
+ * whose greedy fill from the remaining pieces costs least per mm of pieces
+ * placed, so short leftovers go on short boards and long runs on long ones.
+ * Returns null above `MAX_CUT_PIECES` pieces.
+ */
+export const planMixedLengths = (pieces: CutPiece[], stock: StockOption[], options: CutOptions = DEFAULT_CUT_OPTIONS): CutPlan | null => {
+  const usable = stock.filter((s) => s.length > 0 && s.price >= 0);
+  if (usable.length === 0) return null;
+  const maxLength = Math.max(...usable.map((s) => s.length));
+  if (countCutPieces(pieces, maxLength) > MAX_CUT_PIECES) return null;
+  let remaining = explodePieces(pieces, maxLength);
+  if (remaining.length === 0) return null;
+
+  const boards: CutBoard[] = [];
+  while (remaining.length > 0) {
+    let best: { board: CutBoard; taken: number[]; cost: number } | null = null;
+    for (const option of usable) {
+      const { board, taken } = fillBoard(option.length, remaining, options.kerfMm);
+      if (taken.length === 0) continue;
+      const placed = board.cuts.reduce((sum, c) => sum + c, 0);
+      const cost = option.price / placed;
+      if (!best || cost < best.cost) best = { board, taken, cost };
+    }
+    if (!best) break;
+    boards.push(best.board);
+    const taken = new Set(best.taken);
+    remaining = remaining.filter((_, i) => !taken.has(i));
+  }
+  return summarize(boards, usable, null, options);
+};
+
+/** Every single-length plan plus the mixed plan, cheapest first. */
+export const compareCutPlans = (pieces: CutPiece[], stock: StockOption[], options: CutOptions = DEFAULT_CUT_OPTIONS): CutPlan[] => {
+  const singles = stock.map((s) => planSingleLength(pieces, s, options));
+  const plans = [...singles, stock.length > 1 ? planMixedLengths(pieces, stock, options) : null].filter(
+    (p): p is CutPlan => p !== null
+  );
+  return plans.sort((a, b) => a.totalPrice - b.totalPrice || a.wastePercent - b.wastePercent);
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { boardWeightKg, describeDelivery, planDelivery } from './delivery';
+
+const SPEC = { t: 25, w: 150, l: 3000 };
+
+describe('boardWeightKg', () => {
+  it('weighs the board volume, less the hollow cores', () => {
+    // 0.01125 m³ × 1300 kg/m³
+    expect(boardWeightKg(SPEC)).toBeCloseTo(14.625, 6);
+    expect(boardWeightKg(SPEC, 'hollow')).toBeCloseTo(8.775, 6);
+  });
+});
+
+describe('planDelivery', () => {
+  it('stacks boards on pallets and picks the smallest truck that takes the length and weight', () => {
+    const plan = planDelivery(SPEC, 100)!;
+    // 6 across × 24 high = 144, capped at 1000kg -> 68 per pallet
+    expect(plan.boardsPerPallet).toBe(68);
+    expect(plan.pallets).toBe(2);
+    // 1,462.5kg of 3m boards: too long for a 1톤
+    expect(plan.vehicle?.label).toBe('2.5톤');
+    expect(plan.trucks).toBe(1);
+  });
+
+  it('moves up a size when the load is too heavy', () => {
+    expect(planDelivery({ ...SPEC, l: 2400 }, 60, 'hollow')!.vehicle?.label).toBe('1톤');
+    expect(planDelivery({ ...SPEC, l: 2400 }, 150, 'hollow')!.vehicle?.label).toBe('2.5톤');
+  });
+
+  it('splits loads heavier than the largest truck into trips', () => {
+    const plan = planDelivery(SPEC, 1000)!;
+    expect(plan.vehicle?.label).toBe('11톤');
+    expect(plan.trucks).toBe(2);
+  });
+
+  it('has no truck for boards longer than every bed', () => {
+    const plan = planDelivery({ ...SPEC, l: 12000 }, 10)!;
+    expect(plan.vehicle).toBeNull();
+    expect(describeDelivery(plan)).toContain('별도 차량');
+  });
+
+  it('returns null for an empty order', () => {
+    expect(planDelivery(SPEC, 0)).toBeNull();
+  });
+});
+
+describe('describeDelivery', () => {
+  it('summarizes weight, pallets and truck', () => {
+    expect(describeDelivery(planDelivery(SPEC, 100)!)).toBe('약 1,463kg · 팔레트 2개 · 2.5톤 1대');
+  });
+});
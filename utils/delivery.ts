@@ -0,0 +1,83 @@
+import type { BoardProfile } from './catalog';
+import type { DeckSpec } from './estimate';
+
+// --- Types ---
+
+export interface Vehicle {
+  label: string;
+  payloadKg: number;
+  /** Inside length of the cargo bed; boards have to lie flat without overhang. */
+  bedLengthMm: number;
+}
+
+export interface DeliveryPlan {
+  boardWeightKg: number;
+  totalWeightKg: number;
+  boardsPerPallet: number;
+  pallets: number;
+  /** Smallest truck that takes the boards, or null when they are longer than every bed. */
+  vehicle: Vehicle | null;
+  /** Loads of `vehicle` needed; more than one only when even the largest truck is overweight. */
+  trucks: number;
+}
+
+// --- Constants ---
+
+/** Solid WPC (합성목재), kg/m³. */
+export const WPC_DENSITY_KG_M3 = 1300;
+
+/** Share of the board's outer cross-section that is material; hollow boards are about 40% air. */
+export const PROFILE_FILL: Record<BoardProfile, number> = {
+  solid: 1,
+  hollow: 0.6,
+};
+
+/** Boards are stacked on pallets about this wide and high, each carrying at most `PALLET_MAX_KG`. */
+export const PALLET_WIDTH_MM = 1000;
+export const PALLET_HEIGHT_MM = 600;
+export const PALLET_MAX_KG = 1000;
+
+/** Usual cargo trucks (카고) by payload, smallest first. */
+export const VEHICLES: Vehicle[] = [
+  { label: '1톤', payloadKg: 1000, bedLengthMm: 2850 },
+  { label: '2.5톤', payloadKg: 2500, bedLengthMm: 4300 },
+  { label: '5톤', payloadKg: 5000, bedLengthMm: 6200 },
+  { label: '11톤', payloadKg: 11000, bedLengthMm: 9100 },
+];
+
+// --- Calculations ---
+
+export const boardWeightKg = (spec: DeckSpec, profile: BoardProfile = 'solid') =>
+  ((spec.t * spec.w * spec.l) / 1e9) * WPC_DENSITY_KG_M3 * PROFILE_FILL[profile];
+
+/**
+ * Weight, pallets and truck for `boardCount` boards of `spec`.
+ *
+ * Pallets hold as many boards as fit side by side and stacked within the
+ * pallet size, fewer if that would exceed `PALLET_MAX_KG`. The truck is the
+ * smallest one whose bed takes the board length and whose payload takes the
+ * total weight; when the load is heavier than any of those, it goes in
+ * several trips of the largest. Returns null for an empty or zero-sized order.
+ */
+export const planDelivery = (spec: DeckSpec, boardCount: number, profile: BoardProfile = 'solid'): DeliveryPlan | null => {
+  if (!(boardCount > 0) || !(spec.t > 0) || !(spec.w > 0) || !(spec.l > 0)) return null;
+
+  const perBoard = boardWeightKg(spec, profile);
+  const totalWeightKg = perBoard * boardCount;
+
+  const bySize = Math.max(1, Math.floor(PALLET_WIDTH_MM / spec.w)) * Math.max(1, Math.floor(PALLET_HEIGHT_MM / spec.t));
+  const boardsPerPallet = Math.max(1, Math.min(bySize, Math.floor(PALLET_MAX_KG / perBoard)));
+  const pallets = Math.ceil(boardCount / boardsPerPallet);
+
+  const long = VEHICLES.filter((v) => v.bedLengthMm >= spec.l);
+  const vehicle = long.find((v) => v.payloadKg >= totalWeightKg) ?? long[long.length - 1] ?? null;
+  const trucks = vehicle ? Math.ceil(totalWeightKg / vehicle.payloadKg) : 0;
+
+  return { boardWeightKg: perBoard, totalWeightKg, boardsPerPallet, pallets, vehicle, trucks };
+};
+
+/** One line for the dispatcher, e.g. "약 1,250kg · 팔레트 2개 · 2.5톤 1대". */
+export const describeDelivery = (plan: DeliveryPlan) => {
+  const truck = plan.vehicle ? `${plan.vehicle.label} ${plan.trucks}대` : '적재함보다 긴 자재 (별도 차량)';
+  return `약 ${Math.round(plan.totalWeightKg).toLocaleString()}kg · 팔레트 ${plan.pallets}개 · ${truck}`;
+};
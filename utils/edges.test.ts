@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_EDGES, edgeLineItems, estimateEdges } from './edges';
+
+const BASE = {
+  ...DEFAULT_EDGES,
+  spec: { t: 25, w: 150, l: 3000 },
+  boardPrice: 15000,
+  perimeterMm: 14000,
+};
+
+describe('estimateEdges', () => {
+  it('covers the deck height with fascia rows around the perimeter', () => {
+    const est = estimateEdges(BASE)!;
+    // 400 / 150 -> 3 rows × 14m = 42m -> 14 boards
+    expect(est.fascia).toEqual({ count: 3, boards: 14, amount: 210000 });
+    expect(est.trims).toEqual({ count: 4, amount: 32000 });
+    expect(est.treads.boards).toBe(0);
+    expect(est.totalPrice).toBe(242000);
+  });
+
+  it('uses the exposed edge length instead of the perimeter when given', () => {
+    expect(estimateEdges({ ...BASE, exposedMm: 6000 })!.fascia.boards).toBe(6);
+  });
+
+  it('cuts treads and risers to the stair width', () => {
+    const est = estimateEdges({ ...BASE, heightMm: 600, steps: 3 })!;
+    // Treads: 300 / 150 = 2 boards deep × 3 steps = 6 pieces of 1200, two per board
+    expect(est.treads).toEqual({ count: 6, boards: 3, amount: 45000 });
+    // Rise 600 / 4 = 150 -> one board per riser
+    expect(est.risers).toEqual({ count: 3, boards: 2, amount: 30000 });
+    expect(est.trims.count).toBe(6);
+    expect(est.boards).toBe(est.fascia.boards + 5);
+  });
+
+  it('joins boards for stairs wider than a board', () => {
+    expect(estimateEdges({ ...BASE, steps: 1, treadWidthMm: 4000 })!.treads.boards).toBe(4);
+  });
+
+  it('returns null for a zero-sized board', () => {
+    expect(estimateEdges({ ...BASE, spec: { t: 25, w: 0, l: 3000 } })).toBeNull();
+  });
+
+  it('lists only the parts that cost something', () => {
+    const lines = edgeLineItems(estimateEdges(BASE)!);
+    expect(lines.map((l) => l.label)).toEqual(['마감재 (측면)', '코너 마감']);
+  });
+});
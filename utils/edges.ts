@@ -0,0 +1,114 @@
+import type { DeckSpec } from './estimate';
+import type { LineItem } from './lineItems';
+
+// --- Types ---
+
+export interface EdgeSettings {
+  /** Exposed edge length in mm; 0 uses the whole deck perimeter. */
+  exposedMm: number;
+  /** Deck surface above the ground in mm, which the fascia has to cover. */
+  heightMm: number;
+  steps: number;
+  /** Width of the stairs, i.e. the length of every tread and riser board. */
+  treadWidthMm: number;
+  /** Outside corners of the fascia, each finished with a corner trim. */
+  corners: number;
+  trimPrice: number;
+}
+
+export interface EdgeInput extends EdgeSettings {
+  spec: DeckSpec;
+  /** Per board of `spec`. */
+  boardPrice: number;
+  /** Whole deck perimeter in mm, used when no exposed length is entered. */
+  perimeterMm: number;
+}
+
+export interface BoardPieces {
+  /** Rows of boards (fascia) or pieces cut (treads, risers). */
+  count: number;
+  boards: number;
+  amount: number;
+}
+
+export interface EdgeEstimate {
+  fascia: BoardPieces;
+  treads: BoardPieces;
+  risers: BoardPieces;
+  trims: { count: number; amount: number };
+  /** Deck boards used by fascia, treads and risers together. */
+  boards: number;
+  totalPrice: number;
+}
+
+// --- Constants ---
+
+/** Front-to-back depth of one tread. */
+export const TREAD_DEPTH_MM = 300;
+
+export const DEFAULT_EDGES: EdgeSettings = {
+  exposedMm: 0,
+  heightMm: 400,
+  steps: 0,
+  treadWidthMm: 1200,
+  corners: 4,
+  trimPrice: 8000,
+};
+
+// --- Calculations ---
+
+/** Boards needed for `count` pieces of `pieceLength`, cutting several from a board or joining boards end to end. */
+const boardsForPieces = (count: number, pieceLength: number, boardLength: number) => {
+  if (count <= 0 || pieceLength <= 0) return 0;
+  const perBoard = Math.floor(boardLength / pieceLength);
+  return perBoard > 0 ? Math.ceil(count / perBoard) : count * Math.ceil(pieceLength / boardLength);
+};
+
+/**
+ * Fascia (마감재), stair and trim boards cut from the selected deck board.
+ *
+ * The fascia runs around the exposed edge in as many rows as the board width
+ * needs to cover the deck height, joined end to end. Steps split the height
+ * evenly: each of the `steps` treads is `TREAD_DEPTH_MM` deep and each riser
+ * covers one step's rise, both cut to the stair width. Stairs add a trim on
+ * either side to the fascia corners. Returns null for a zero-sized board.
+ */
+export const estimateEdges = (input: EdgeInput): EdgeEstimate | null => {
+  const { spec, boardPrice } = input;
+  if (!(spec.w > 0) || !(spec.l > 0)) return null;
+
+  const runMm = input.exposedMm > 0 ? input.exposedMm : Math.max(0, input.perimeterMm);
+  const height = Math.max(0, input.heightMm);
+  const steps = Math.max(0, Math.floor(input.steps));
+  const priced = (count: number, boards: number): BoardPieces => ({ count, boards, amount: Math.round(boards * boardPrice) });
+
+  const fasciaRows = runMm > 0 ? Math.ceil(height / spec.w) : 0;
+  const fascia = priced(fasciaRows, Math.ceil((fasciaRows * runMm) / spec.l));
+
+  const treadCount = steps * Math.ceil(TREAD_DEPTH_MM / spec.w);
+  const treads = priced(treadCount, boardsForPieces(treadCount, input.treadWidthMm, spec.l));
+
+  const rise = steps > 0 ? height / (steps + 1) : 0;
+  const riserCount = steps * Math.ceil(rise / spec.w);
+  const risers = priced(riserCount, boardsForPieces(riserCount, input.treadWidthMm, spec.l));
+
+  const trimCount = (fasciaRows > 0 ? Math.max(0, input.corners) : 0) + (steps > 0 ? 2 : 0);
+  const trims = { count: trimCount, amount: trimCount * input.trimPrice };
+
+  return {
+    fascia,
+    treads,
+    risers,
+    trims,
+    boards: fascia.boards + treads.boards + risers.boards,
+    totalPrice: fascia.amount + treads.amount + risers.amount + trims.amount,
+  };
+};
+
+export const edgeLineItems = (estimate: EdgeEstimate): LineItem[] =>
+  [
+    { label: '마감재 (측면)', detail: `${estimate.fascia.count}단 → ${estimate.fascia.boards.toLocaleString()}장`, amount: estimate.fascia.amount },
+    { label: '계단 디딤판', detail: `${estimate.treads.count}개 → ${estimate.treads.boards.toLocaleString()}장`, amount: estimate.treads.amount },
+    { label: '계단 챌판', detail: `${estimate.risers.count}개 → ${estimate.risers.boards.toLocaleString()}장`, amount: estimate.risers.amount },
+    { label: '코너 마감', detail: `${estimate.trims.count}개`, amount: estimate.trims.amount },
+  ].filter((line) => line.amount > 0);
@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import { PYEONG_TO_M2, convertPrice, estimateDeck, getBoardMetrics, getCoverWidth } from './estimate';
+
+const SPEC = { t: 25, w: 150, l: 3000 }; // 0.45 m² per board
+
+describe('getBoardMetrics', () => {
+  it('derives area and per-area prices from the board spec', () => {
+    const board = getBoardMetrics(SPEC, 15000);
+    expect(board.areaPerBoardM2).toBeCloseTo(0.45, 10);
+    expect(board.pricePerM2).toBeCloseTo(15000 / 0.45, 6);
+    expect(board.pricePerPyeong).toBeCloseTo((15000 / 0.45) * PYEONG_TO_M2, 6);
+  });
+
+  it('returns zero prices when the price or board area is zero', () => {
+    expect(getBoardMetrics(SPEC, 0).pricePerM2).toBe(0);
+    expect(getBoardMetrics({ ...SPEC, w: 0 }, 15000).pricePerPyeong).toBe(0);
+  });
+});
+
+describe('convertPrice', () => {
+  it('converts between board, board face area and running meter prices', () => {
+    expect(convertPrice(50000, 'm2', 'board', SPEC)).toBeCloseTo(22500, 6);
+    expect(convertPrice(5000, 'meter', 'board', SPEC)).toBeCloseTo(15000, 6);
+    expect(convertPrice(15000, 'board', 'pyeong', SPEC)).toBeCloseTo((15000 / 0.45) * PYEONG_TO_M2, 6);
+    expect(convertPrice(convertPrice(12345, 'pyeong', 'meter', SPEC), 'meter', 'pyeong', SPEC)).toBeCloseTo(12345, 6);
+  });
+
+  it('returns zero for a zero-sized board', () => {
+    expect(convertPrice(15000, 'board', 'm2', { ...SPEC, w: 0 })).toBe(0);
+  });
+});
+
+describe('estimateDeck', () => {
+  it('uses the amount as the board count in quantity mode', () => {
+    const r = estimateDeck(SPEC, 15000, 'quantity', 10);
+    expect(r.isValid).toBe(true);
+    expect(r.totalQuantity).toBe(10);
+    expect(r.totalArea).toBeCloseTo(4.5, 10);
+    expect(r.totalPrice).toBe(150000);
+  });
+
+  it('rounds m² targets up to whole boards', () => {
+    const r = estimateDeck(SPEC, 15000, 'area_m2', 10);
+    // 10 / 0.45 = 22.2 -> 23 boards
+    expect(r.totalQuantity).toBe(23);
+    expect(r.totalArea).toBeCloseTo(23 * 0.45, 10);
+    expect(r.totalPrice).toBe(23 * 15000);
+  });
+
+  it('rounds the total of a derived per-board price to whole won', () => {
+    expect(estimateDeck(SPEC, 1000 / 3, 'quantity', 10).totalPrice).toBe(3333);
+  });
+
+  it('does not add a board when the area divides exactly', () => {
+    const r = estimateDeck({ t: 25, w: 100, l: 2000 }, 10000, 'area_m2', 2);
+    expect(r.totalQuantity).toBe(10);
+  });
+
+  it('converts 평 to m² before rounding', () => {
+    const r = estimateDeck(SPEC, 15000, 'area_pyeong', 10);
+    // 10평 = 33.05785 m² / 0.45 = 73.46 -> 74 boards
+    expect(r.totalQuantity).toBe(Math.ceil((10 * PYEONG_TO_M2) / 0.45));
+    expect(r.totalQuantity).toBe(74);
+    expect(r.totalArea / PYEONG_TO_M2).toBeGreaterThanOrEqual(10);
+  });
+
+  it.each([
+    ['NaN', NaN],
+    ['zero', 0],
+    ['negative', -5],
+    ['infinite', Infinity],
+  ])('is invalid for a %s amount', (_, amount) => {
+    const r = estimateDeck(SPEC, 15000, 'area_m2', amount);
+    expect(r.isValid).toBe(false);
+    expect(r.totalQuantity).toBe(0);
+    expect(r.totalArea).toBe(0);
+    expect(r.totalPrice).toBe(0);
+    expect(r.areaPerBoardM2).toBeCloseTo(0.45, 10);
+  });
+
+  it('is invalid for a zero-sized board', () => {
+    expect(estimateDeck({ ...SPEC, w: 0 }, 15000, 'quantity', 10).isValid).toBe(false);
+    expect(estimateDeck({ ...SPEC, l: 0 }, 15000, 'area_m2', 10).isValid).toBe(false);
+  });
+
+  describe('budget', () => {
+    it('buys the most whole boards the budget covers', () => {
+      const r = estimateDeck(SPEC, 15000, 'budget', 100000);
+      expect(r.isValid).toBe(true);
+      expect(r.totalQuantity).toBe(6);
+      expect(r.totalPrice).toBe(90000);
+      expect(r.budgetLeftover).toBe(10000);
+      expect(r.totalArea).toBeCloseTo(6 * 0.45, 10);
+    });
+
+    it('counts extra costs against the budget', () => {
+      // 10% on top: 6 boards = 99,000, 7 boards = 115,500
+      const r = estimateDeck(SPEC, 15000, 'budget', 100000, { budgetCost: (n, price) => Math.round(n * price * 1.1) });
+      expect(r.totalQuantity).toBe(6);
+      expect(r.budgetLeftover).toBe(1000);
+    });
+
+    it('buys more boards when a discount lowers the cost', () => {
+      // 10% off: 7 boards = 94,500, 8 boards = 108,000
+      const r = estimateDeck(SPEC, 15000, 'budget', 100000, { budgetCost: (n, price) => Math.round(n * price * 0.9) });
+      expect(r.totalQuantity).toBe(7);
+      expect(r.budgetLeftover).toBe(5500);
+    });
+
+    it('looks past a breakpoint where the cost drops', () => {
+      // Half price from 10 boards: 9 boards = 135,000 but 10 boards = 75,000, 13 boards = 97,500
+      const budgetCost = (n: number, price: number) => n * price * (n >= 10 ? 0.5 : 1);
+      expect(estimateDeck(SPEC, 15000, 'budget', 100000, { budgetCost }).totalQuantity).toBe(6);
+      const r = estimateDeck(SPEC, 15000, 'budget', 100000, { budgetCost, budgetBreakpoints: [10] });
+      expect(r.totalQuantity).toBe(13);
+      expect(r.budgetLeftover).toBe(2500);
+    });
+
+    it('is invalid when the budget does not buy a board', () => {
+      expect(estimateDeck(SPEC, 15000, 'budget', 14999).isValid).toBe(false);
+      expect(estimateDeck(SPEC, 0, 'budget', 100000).isValid).toBe(false);
+      expect(estimateDeck(SPEC, 15000, 'budget', 15000, { budgetCost: (n, price) => n * price + 50000 }).isValid).toBe(false);
+    });
+  });
+
+  describe('loss allowance', () => {
+    it('adds the loss percentage to the area before rounding', () => {
+      const r = estimateDeck(SPEC, 15000, 'area_m2', 10, { lossPercent: 5 });
+      // 10 m² -> 23 net boards; 10.5 m² / 0.45 = 23.3 -> 24 ordered
+      expect(r.netQuantity).toBe(23);
+      expect(r.totalQuantity).toBe(24);
+      expect(r.totalPrice).toBe(24 * 15000);
+      expect(r.totalArea).toBeCloseTo(24 * 0.45, 10);
+      expect(r.deckAreaM2).toBe(10);
+    });
+
+    it('applies to 평 targets as well', () => {
+      const r = estimateDeck(SPEC, 15000, 'area_pyeong', 10, { lossPercent: 10 });
+      expect(r.netQuantity).toBe(74);
+      expect(r.totalQuantity).toBe(Math.ceil((10 * PYEONG_TO_M2 * 1.1) / 0.45));
+    });
+
+    it('does not round an exact board count up because of float error', () => {
+      // 5.7 / 0.285 and 5.985 / 0.285 land just above 20 and 21 in floating point
+      const r = estimateDeck({ t: 25, w: 95, l: 3000 }, 15000, 'area_m2', 5.7, { lossPercent: 5 });
+      expect(r.netQuantity).toBe(20);
+      expect(r.totalQuantity).toBe(21);
+    });
+
+    it('is ignored in quantity mode', () => {
+      const r = estimateDeck(SPEC, 15000, 'quantity', 10, { lossPercent: 10 });
+      expect(r.netQuantity).toBe(10);
+      expect(r.totalQuantity).toBe(10);
+    });
+
+    it('treats a missing or negative percentage as zero', () => {
+      expect(estimateDeck(SPEC, 15000, 'area_m2', 10).totalQuantity).toBe(23);
+      expect(estimateDeck(SPEC, 15000, 'area_m2', 10, { lossPercent: -5 }).totalQuantity).toBe(23);
+    });
+  });
+
+  describe('layout mode', () => {
+    it('counts boards from the deck dimensions and ignores the amount', () => {
+      const r = estimateDeck(SPEC, 15000, 'layout', NaN, {
+        layout: { widthMm: 4200, depthMm: 1500, direction: 'width' },
+      });
+      expect(r.isValid).toBe(true);
+      expect(r.totalQuantity).toBe(15);
+      expect(r.totalPrice).toBe(15 * 15000);
+      expect(r.layout?.rows).toBe(10);
+    });
+
+    it('is invalid without deck dimensions', () => {
+      expect(estimateDeck(SPEC, 15000, 'layout', 10).isValid).toBe(false);
+    });
+  });
+
+  describe('board gap', () => {
+    it('widens the coverage of each board by the gap, less any overlap', () => {
+      expect(getCoverWidth(SPEC, { gapMm: 5 })).toBe(155);
+      expect(getCoverWidth(SPEC, { gapMm: 5, overlapMm: 10 })).toBe(145);
+      expect(getCoverWidth(SPEC, { gapMm: -5 })).toBe(150);
+    });
+
+    it('reports nominal and effective area and prices per deck surface', () => {
+      const board = getBoardMetrics(SPEC, 15000, { gapMm: 5 });
+      expect(board.areaPerBoardM2).toBeCloseTo(0.45, 10);
+      expect(board.effectiveAreaPerBoardM2).toBeCloseTo(0.465, 10);
+      expect(board.pricePerM2).toBeCloseTo(15000 / 0.465, 6);
+    });
+
+    it('needs fewer boards for the same area', () => {
+      // 10 / 0.465 = 21.5 -> 22 boards instead of 23
+      const r = estimateDeck(SPEC, 15000, 'area_m2', 10, { gapMm: 5 });
+      expect(r.totalQuantity).toBe(22);
+      expect(r.totalArea).toBeCloseTo(22 * 0.465, 10);
+    });
+
+    it('spaces layout rows by the effective width', () => {
+      const r = estimateDeck(SPEC, 15000, 'layout', NaN, {
+        gapMm: 5,
+        layout: { widthMm: 3000, depthMm: 1550, direction: 'width' },
+      });
+      expect(r.layout?.rows).toBe(10);
+    });
+
+    it('is invalid when the overlap swallows the board', () => {
+      expect(estimateDeck(SPEC, 15000, 'quantity', 10, { overlapMm: 150 }).isValid).toBe(false);
+    });
+  });
+});
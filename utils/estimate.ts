@@ -0,0 +1,231 @@
+import { RectLayoutInput, RectLayoutPlan, planRectLayout } from './layout';
+
+// --- Types ---
+
+export type CalcMode = 'quantity' | 'area_m2' | 'area_pyeong' | 'layout' | 'budget';
+
+/** Unit a price is quoted in: per board, per m² or 평 of board face, or per running meter of board. */
+export type PriceBasis = 'board' | 'm2' | 'pyeong' | 'meter';
+
+export interface DeckSpec {
+  t: number;
+  w: number;
+  l: number;
+}
+
+/** How boards sit next to each other, which sets the width each board covers. */
+export interface BoardCoverage {
+  /** Gap (줄눈) between neighbouring boards in mm. */
+  gapMm?: number;
+  /** Tongue/groove overlap of profile boards in mm. */
+  overlapMm?: number;
+}
+
+export interface EstimateOptions extends BoardCoverage {
+  /** Cutting waste allowance (할증률) in percent, applied in the area modes only. */
+  lossPercent?: number;
+  /** Deck dimensions for 'layout' mode. */
+  layout?: RectLayoutInput;
+  /**
+   * What `boardCount` boards cost against the budget in 'budget' mode, e.g.
+   * with discounts taken off and freight and VAT added. Must not decrease as
+   * the count grows, except at `budgetBreakpoints`. Defaults to the boards alone.
+   */
+  budgetCost?: (boardCount: number, unitPrice: number) => number;
+  /** Board counts at which `budgetCost` may drop, such as volume discount tiers. */
+  budgetBreakpoints?: number[];
+}
+
+export interface EstimateResult {
+  isValid: boolean;
+  /** Nominal board face, width × length. */
+  areaPerBoardM2: number;
+  /** Deck surface one board covers once the gap and overlap are applied. */
+  effectiveAreaPerBoardM2: number;
+  /** Per deck surface, i.e. based on the effective area. */
+  pricePerM2: number;
+  pricePerPyeong: number;
+  /** Boards needed to cover the target with no waste. Equals totalQuantity in 'quantity' mode. */
+  netQuantity: number;
+  /** Boards to order, including the loss allowance. */
+  totalQuantity: number;
+  /** Deck surface covered by the ordered boards. */
+  totalArea: number;
+  /**
+   * Area of the deck itself in m²: the target in the area modes, the outline
+   * in 'layout' mode and the boards' own area in 'quantity' mode.
+   */
+  deckAreaM2: number;
+  totalPrice: number;
+  /** Board layout, only in 'layout' mode. */
+  layout: RectLayoutPlan | null;
+  /** Budget left after buying the boards, only in 'budget' mode. */
+  budgetLeftover: number;
+}
+
+// --- Constants ---
+
+export const PYEONG_TO_M2 = 3.305785;
+
+export const LOSS_PRESETS = [0, 5, 7, 10];
+
+export const GAP_PRESETS = [0, 3, 5, 6];
+
+export const PRICE_BASIS_UNITS: Record<PriceBasis, string> = {
+  board: '장',
+  m2: 'm²',
+  pyeong: '평',
+  meter: 'm',
+};
+
+/** Upper limit for 'budget' mode, in case discounts make boards free. */
+const MAX_BUDGET_QUANTITY = 1_000_000;
+
+// --- Calculations ---
+
+/** Rounds up to whole boards, ignoring float error such as 20.000000000000004 for an exact 20. */
+const ceilBoards = (count: number) => Math.ceil(Math.round(count * 1e9) / 1e9);
+
+/** Row pitch in mm: the board width plus the gap, less any tongue/groove overlap. */
+export const getCoverWidth = (spec: DeckSpec, coverage: BoardCoverage = {}) =>
+  Math.max(0, spec.w + Math.max(0, coverage.gapMm ?? 0) - Math.max(0, coverage.overlapMm ?? 0));
+
+/** How many `basis` units one board of `spec` is, e.g. 0.45 for m² on a 150 × 3000 board. */
+export const basisUnitsPerBoard = (spec: DeckSpec, basis: PriceBasis) => {
+  switch (basis) {
+    case 'm2':
+      return (spec.w * spec.l) / 1_000_000;
+    case 'pyeong':
+      return (spec.w * spec.l) / 1_000_000 / PYEONG_TO_M2;
+    case 'meter':
+      return spec.l / 1000;
+    default:
+      return 1;
+  }
+};
+
+/** Converts a price quoted per `from` unit to the price per `to` unit for the same board. */
+export const convertPrice = (price: number, from: PriceBasis, to: PriceBasis, spec: DeckSpec) => {
+  const toUnits = basisUnitsPerBoard(spec, to);
+  return toUnits > 0 ? (price * basisUnitsPerBoard(spec, from)) / toUnits : 0;
+};
+
+/**
+ * Board-level figures that only depend on the spec and the per-board price.
+ * These are shown in the price section even before an amount is entered.
+ */
+export const getBoardMetrics = (spec: DeckSpec, unitPrice: number, coverage: BoardCoverage = {}) => {
+  const areaPerBoardM2 = (spec.w * spec.l) / 1_000_000;
+  const effectiveAreaPerBoardM2 = (getCoverWidth(spec, coverage) * spec.l) / 1_000_000;
+  const pricePerM2 = unitPrice > 0 && effectiveAreaPerBoardM2 > 0 ? unitPrice / effectiveAreaPerBoardM2 : 0;
+  const pricePerPyeong = pricePerM2 * PYEONG_TO_M2;
+  return { areaPerBoardM2, effectiveAreaPerBoardM2, pricePerM2, pricePerPyeong };
+};
+
+/**
+ * Largest count from `from` to `to` whose cost fits `amount`, or `from - 1`
+ * when none does. `cost` must not decrease within the range.
+ */
+const maxAffordable = (cost: (count: number) => number, amount: number, from: number, to: number) => {
+  if (cost(from) > amount) return from - 1;
+  let low = from;
+  let high = to;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (cost(mid) <= amount) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+/**
+ * Estimates board quantity, covered area and material price.
+ *
+ * `amount` is interpreted per `mode`: a board count for 'quantity', m² for
+ * 'area_m2', 평 for 'area_pyeong' and won for 'budget'. Area modes round up to whole boards,
+ * and `options.lossPercent` is added on top of the target area before
+ * rounding so the ordered quantity covers cutting waste. 'layout' mode
+ * ignores `amount` and counts boards from `options.layout` instead.
+ * 'budget' mode buys as many whole boards as `options.budgetCost` allows,
+ * searching each stretch between `options.budgetBreakpoints` on its own, and
+ * is invalid when the budget does not cover a single board.
+ * Coverage uses the effective board width, so a gap means fewer boards.
+ * A missing, non-positive or non-numeric amount (or a zero-sized board)
+ * yields `isValid: false` with zeroed totals.
+ */
+export const estimateDeck = (
+  spec: DeckSpec,
+  unitPrice: number,
+  mode: CalcMode,
+  amount: number,
+  options: EstimateOptions = {}
+): EstimateResult => {
+  const board = getBoardMetrics(spec, unitPrice, options);
+  const invalid: EstimateResult = {
+    isValid: false,
+    ...board,
+    netQuantity: 0,
+    totalQuantity: 0,
+    totalArea: 0,
+    deckAreaM2: 0,
+    totalPrice: 0,
+    layout: null,
+    budgetLeftover: 0,
+  };
+
+  if (spec.w <= 0 || spec.l <= 0 || board.effectiveAreaPerBoardM2 <= 0) return invalid;
+
+  let netQuantity = 0;
+  let totalQuantity = 0;
+  let deckAreaM2 = 0;
+  let layout: RectLayoutPlan | null = null;
+  let budgetLeftover = 0;
+
+  if (mode === 'layout') {
+    layout = options.layout ? planRectLayout(spec, options.layout, getCoverWidth(spec, options)) : null;
+    if (!layout) return invalid;
+    netQuantity = totalQuantity = layout.totalQuantity;
+    deckAreaM2 = layout.deckAreaM2;
+  } else if (!Number.isFinite(amount) || amount <= 0) {
+    return invalid;
+  } else if (mode === 'budget') {
+    if (unitPrice <= 0) return invalid;
+    const cost = (count: number) => options.budgetCost?.(count, unitPrice) ?? Math.round(count * unitPrice);
+    // Highest stretch first: the first one with an affordable count holds the answer
+    const starts = [...new Set([1, ...(options.budgetBreakpoints ?? [])])]
+      .filter((n) => Number.isInteger(n) && n >= 1 && n <= MAX_BUDGET_QUANTITY)
+      .sort((a, b) => b - a);
+    let low = 0;
+    let end = MAX_BUDGET_QUANTITY;
+    for (const start of starts) {
+      low = maxAffordable(cost, amount, start, end);
+      if (low >= start) break;
+      end = start - 1;
+    }
+    if (low === 0) return invalid;
+    netQuantity = totalQuantity = low;
+    deckAreaM2 = low * board.effectiveAreaPerBoardM2;
+    budgetLeftover = amount - cost(low);
+  } else if (mode === 'quantity') {
+    netQuantity = totalQuantity = amount;
+    deckAreaM2 = amount * board.effectiveAreaPerBoardM2;
+  } else {
+    const targetM2 = mode === 'area_pyeong' ? amount * PYEONG_TO_M2 : amount;
+    const lossPercent = Math.max(0, options.lossPercent ?? 0);
+    deckAreaM2 = targetM2;
+    netQuantity = ceilBoards(targetM2 / board.effectiveAreaPerBoardM2);
+    totalQuantity = ceilBoards((targetM2 * (100 + lossPercent)) / 100 / board.effectiveAreaPerBoardM2);
+  }
+
+  return {
+    isValid: true,
+    ...board,
+    netQuantity,
+    totalQuantity,
+    totalArea: totalQuantity * board.effectiveAreaPerBoardM2,
+    deckAreaM2,
+    totalPrice: Math.round(totalQuantity * unitPrice),
+    layout,
+    budgetLeftover,
+  };
+};
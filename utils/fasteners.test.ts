@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_FASTENER_PRICES, estimateFasteners, fastenerLineItems } from './fasteners';
+
+const BASE = {
+  boardCount: 30,
+  boardLength: 3000,
+  joistSpacing: 400,
+  runLength: 4000,
+  prices: { clipBox: 20000, startClipBox: 10000, screwBox: 5000 },
+};
+
+describe('estimateFasteners', () => {
+  it('counts one clip per joist crossing and start clips on the first and last row', () => {
+    const est = estimateFasteners(BASE)!;
+    // 3000 / 400 = 7.5 -> 9 joists under each board, as in the substructure
+    expect(est.crossingsPerBoard).toBe(9);
+    // 4000 run -> 11 joists, both edges
+    expect(est.startClips.count).toBe(22);
+    expect(est.startClips.boxes).toBe(1);
+    // 270 crossings, less the 22 taken by start clips
+    expect(est.clips.count).toBe(248);
+    expect(est.clips.boxes).toBe(3);
+    expect(est.screws.count).toBe(270);
+    expect(est.screws.boxes).toBe(2);
+    expect(est.totalPrice).toBe(3 * 20000 + 10000 + 2 * 5000);
+  });
+
+  it('falls back to one board length for the start rows', () => {
+    const est = estimateFasteners({ ...BASE, runLength: 0 })!;
+    expect(est.startClips.count).toBe(18);
+  });
+
+  it('returns null without boards or spacing', () => {
+    expect(estimateFasteners({ ...BASE, boardCount: 0 })).toBeNull();
+    expect(estimateFasteners({ ...BASE, joistSpacing: 0 })).toBeNull();
+  });
+
+  it('builds line items that add up to the total', () => {
+    const est = estimateFasteners({ ...BASE, prices: DEFAULT_FASTENER_PRICES })!;
+    const lines = fastenerLineItems(est);
+    expect(lines).toHaveLength(3);
+    expect(lines.reduce((sum, l) => sum + l.amount, 0)).toBe(est.totalPrice);
+  });
+});
@@ -0,0 +1,89 @@
+import type { LineItem } from './lineItems';
+import { membersAlong } from './substructure';
+
+// --- Types ---
+
+export interface FastenerPrices {
+  clipBox: number;
+  startClipBox: number;
+  screwBox: number;
+}
+
+export interface FastenerInput {
+  boardCount: number;
+  boardLength: number;
+  joistSpacing: number;
+  /** Length of the first and last board rows, which take start/end clips at every joist. */
+  runLength: number;
+  prices: FastenerPrices;
+}
+
+export interface BoxedCount {
+  count: number;
+  boxes: number;
+  amount: number;
+}
+
+export interface FastenerEstimate {
+  crossingsPerBoard: number;
+  clips: BoxedCount;
+  startClips: BoxedCount;
+  screws: BoxedCount;
+  totalPrice: number;
+}
+
+// --- Constants ---
+
+export const CLIPS_PER_BOX = 100;
+export const START_CLIPS_PER_BOX = 50;
+export const SCREWS_PER_BOX = 200;
+
+export const DEFAULT_FASTENER_PRICES: FastenerPrices = {
+  clipBox: 25000,
+  startClipBox: 15000,
+  screwBox: 12000,
+};
+
+// --- Calculations ---
+
+const boxed = (count: number, perBox: number, boxPrice: number): BoxedCount => {
+  const boxes = Math.ceil(count / perBox);
+  return { count, boxes, amount: boxes * boxPrice };
+};
+
+/**
+ * Counts hidden clips, start/end clips and screws.
+ *
+ * Every board takes one clip wherever it crosses a joist, counting joists
+ * the same way as the substructure. The first and last rows take a start/end
+ * clip at each joist instead, and every clip is fixed with one screw. Counts are rounded up to whole boxes. Returns null for a
+ * missing board count, length or spacing.
+ */
+export const estimateFasteners = (input: FastenerInput): FastenerEstimate | null => {
+  const { boardCount, boardLength, joistSpacing, runLength, prices } = input;
+  if (!(boardCount > 0) || !(boardLength > 0) || !(joistSpacing > 0)) return null;
+
+  const crossingsPerBoard = membersAlong(boardLength, joistSpacing);
+  const joistLines = runLength > 0 ? membersAlong(runLength, joistSpacing) : crossingsPerBoard;
+
+  const startClipCount = 2 * joistLines;
+  const clipCount = Math.max(0, Math.ceil(boardCount * crossingsPerBoard) - startClipCount);
+
+  const clips = boxed(clipCount, CLIPS_PER_BOX, prices.clipBox);
+  const startClips = boxed(startClipCount, START_CLIPS_PER_BOX, prices.startClipBox);
+  const screws = boxed(clipCount + startClipCount, SCREWS_PER_BOX, prices.screwBox);
+
+  return {
+    crossingsPerBoard,
+    clips,
+    startClips,
+    screws,
+    totalPrice: clips.amount + startClips.amount + screws.amount,
+  };
+};
+
+export const fastenerLineItems = (estimate: FastenerEstimate): LineItem[] => [
+  { label: '히든 클립', detail: `${estimate.clips.count.toLocaleString()}개 → ${estimate.clips.boxes}박스`, amount: estimate.clips.amount },
+  { label: '스타트 클립', detail: `${estimate.startClips.count.toLocaleString()}개 → ${estimate.startClips.boxes}박스`, amount: estimate.startClips.amount },
+  { label: '피스', detail: `${estimate.screws.count.toLocaleString()}개 → ${estimate.screws.boxes}박스`, amount: estimate.screws.amount },
+];
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { PYEONG_TO_M2 } from './estimate';
+import { DEFAULT_LABOUR, labourLineItems } from './labour';
+import { sumLineItems } from './lineItems';
+
+const TEN_PYEONG = 10 * PYEONG_TO_M2;
+
+describe('labourLineItems', () => {
+  it('prices installation per 평 or per m²', () => {
+    expect(labourLineItems(DEFAULT_LABOUR, TEN_PYEONG)).toEqual([
+      { label: '시공비', detail: '10.0평 × 150,000원', amount: 1500000 },
+    ]);
+    const perM2 = labourLineItems({ ...DEFAULT_LABOUR, rateUnit: 'm2', installRate: 40000 }, 20);
+    expect(perM2[0]).toEqual({ label: '시공비', detail: '20.0m² × 40,000원', amount: 800000 });
+  });
+
+  it('adds demolition, stairs and railings, then the access surcharge on all of them', () => {
+    const lines = labourLineItems(
+      { ...DEFAULT_LABOUR, demolition: true, stairSteps: 3, railingMeters: 4, accessSurchargePercent: 10 },
+      TEN_PYEONG
+    );
+    expect(lines.map((l) => l.label)).toEqual(['시공비', '기존 데크 철거', '계단', '난간', '작업 여건 할증']);
+    // 1,500,000 + 500,000 + 300,000 + 600,000 = 2,900,000, +10%
+    expect(lines[4].amount).toBe(290000);
+    expect(sumLineItems(lines)).toBe(3190000);
+  });
+
+  it('tops small jobs up to the minimum charge', () => {
+    const lines = labourLineItems(DEFAULT_LABOUR, PYEONG_TO_M2);
+    expect(lines[1]).toEqual({ label: '최소 시공비 보정', detail: '최소 500,000원', amount: 350000 });
+    expect(sumLineItems(lines)).toBe(500000);
+  });
+
+  it('is empty when there is no work to price', () => {
+    expect(labourLineItems({ ...DEFAULT_LABOUR, installRate: 0 }, TEN_PYEONG)).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { PYEONG_TO_M2 } from './estimate';
+import type { LineItem } from './lineItems';
+
+// --- Types ---
+
+export type LabourRateUnit = 'pyeong' | 'm2';
+
+export interface LabourSettings {
+  /** Installation (시공비) per `rateUnit` of deck. */
+  installRate: number;
+  rateUnit: LabourRateUnit;
+  /** Removing an old deck, per `rateUnit`; applied when `demolition` is on. */
+  demolition: boolean;
+  demolitionRate: number;
+  stairSteps: number;
+  stairRate: number;
+  railingMeters: number;
+  railingRate: number;
+  /** Surcharge on all labour for difficult access (stairs only, no parking, rooftop lifting...). */
+  accessSurchargePercent: number;
+  /** Smallest job we take; labour below it is topped up. 0 = none. */
+  minimumCharge: number;
+}
+
+// --- Constants ---
+
+export const LABOUR_RATE_UNIT_LABELS: Record<LabourRateUnit, string> = {
+  pyeong: '평당',
+  m2: 'm²당',
+};
+
+export const DEFAULT_LABOUR: LabourSettings = {
+  installRate: 150000,
+  rateUnit: 'pyeong',
+  demolition: false,
+  demolitionRate: 50000,
+  stairSteps: 0,
+  stairRate: 100000,
+  railingMeters: 0,
+  railingRate: 150000,
+  accessSurchargePercent: 0,
+  minimumCharge: 500000,
+};
+
+// --- Calculations ---
+
+const formatArea = (areaM2: number, unit: LabourRateUnit) =>
+  unit === 'pyeong' ? `${(areaM2 / PYEONG_TO_M2).toFixed(1)}평` : `${areaM2.toFixed(1)}m²`;
+
+/**
+ * Labour lines for a deck of `deckAreaM2`: installation, then the optional
+ * demolition, stairs and railings, an access surcharge on all of those, and
+ * finally a top-up to the minimum charge. Rows that come to nothing are left
+ * out, so the result can be empty.
+ */
+export const labourLineItems = (settings: LabourSettings, deckAreaM2: number): LineItem[] => {
+  const area = Math.max(0, deckAreaM2);
+  const units = settings.rateUnit === 'pyeong' ? area / PYEONG_TO_M2 : area;
+  const perUnit = (rate: number) => `${formatArea(area, settings.rateUnit)} × ${rate.toLocaleString()}원`;
+
+  const work: LineItem[] = [
+    { label: '시공비', detail: perUnit(settings.installRate), amount: Math.round(units * settings.installRate) },
+    ...(settings.demolition
+      ? [{ label: '기존 데크 철거', detail: perUnit(settings.demolitionRate), amount: Math.round(units * settings.demolitionRate) }]
+      : []),
+    {
+      label: '계단',
+      detail: `${settings.stairSteps}단 × ${settings.stairRate.toLocaleString()}원`,
+      amount: Math.round(settings.stairSteps * settings.stairRate),
+    },
+    {
+      label: '난간',
+      detail: `${settings.railingMeters}m × ${settings.railingRate.toLocaleString()}원`,
+      amount: Math.round(settings.railingMeters * settings.railingRate),
+    },
+  ].filter((line) => line.amount > 0);
+
+  const workTotal = work.reduce((sum, line) => sum + line.amount, 0);
+  const surcharge = Math.round((workTotal * Math.max(0, settings.accessSurchargePercent)) / 100);
+  const lines = surcharge > 0 ? [...work, { label: '작업 여건 할증', detail: `${settings.accessSurchargePercent}%`, amount: surcharge }] : work;
+
+  const subtotal = workTotal + surcharge;
+  if (subtotal > 0 && subtotal < settings.minimumCharge) {
+    lines.push({ label: '최소 시공비 보정', detail: `최소 ${settings.minimumCharge.toLocaleString()}원`, amount: settings.minimumCharge - subtotal });
+  }
+  return lines;
+};
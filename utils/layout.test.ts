@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { planRectLayout } from './layout';
+
+const SPEC = { t: 25, w: 150, l: 3000 };
+
+describe('planRectLayout', () => {
+  it('fills a deck that is a whole number of boards without cuts', () => {
+    const plan = planRectLayout(SPEC, { widthMm: 6000, depthMm: 1500, direction: 'width' })!;
+    expect(plan.rows).toBe(10);
+    expect(plan.fullBoardsPerRow).toBe(2);
+    expect(plan.cutLength).toBe(0);
+    expect(plan.cutBoards).toBe(0);
+    expect(plan.totalQuantity).toBe(20);
+    expect(plan.jointsPerRow).toBe(1);
+    expect(plan.needsEndJoints).toBe(true);
+    expect(plan.deckAreaM2).toBeCloseTo(9, 10);
+  });
+
+  it('shares cut pieces between rows', () => {
+    // 4200 run = 1 full board + 1200 cut; two 1200 pieces per 3000 board
+    const plan = planRectLayout(SPEC, { widthMm: 4200, depthMm: 1500, direction: 'width' })!;
+    expect(plan.rows).toBe(10);
+    expect(plan.cutLength).toBe(1200);
+    expect(plan.cutPiecesPerBoard).toBe(2);
+    expect(plan.fullBoards).toBe(10);
+    expect(plan.cutBoards).toBe(5);
+    expect(plan.totalQuantity).toBe(15);
+  });
+
+  it('rounds a partial row up and swaps axes with the direction', () => {
+    const plan = planRectLayout(SPEC, { widthMm: 1000, depthMm: 2500, direction: 'depth' })!;
+    // boards run along the 2500 depth, 1000 / 150 = 6.7 -> 7 rows
+    expect(plan.runLength).toBe(2500);
+    expect(plan.rows).toBe(7);
+    expect(plan.fullBoardsPerRow).toBe(0);
+    expect(plan.cutLength).toBe(2500);
+    expect(plan.cutPiecesPerBoard).toBe(1);
+    expect(plan.totalQuantity).toBe(7);
+    expect(plan.needsEndJoints).toBe(false);
+  });
+
+  it('returns null for missing dimensions', () => {
+    expect(planRectLayout(SPEC, { widthMm: 0, depthMm: 1500, direction: 'width' })).toBeNull();
+    expect(planRectLayout(SPEC, { widthMm: NaN, depthMm: 1500, direction: 'width' })).toBeNull();
+  });
+});
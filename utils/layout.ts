@@ -0,0 +1,75 @@
+import type { DeckSpec } from './estimate';
+
+// --- Types ---
+
+/** Which deck side the boards run parallel to. */
+export type BoardDirection = 'width' | 'depth';
+
+export interface RectLayoutInput {
+  /** Deck 가로 in mm. */
+  widthMm: number;
+  /** Deck 세로 in mm. */
+  depthMm: number;
+  direction: BoardDirection;
+}
+
+export interface RectLayoutPlan {
+  /** Length each row of boards has to span (mm). */
+  runLength: number;
+  /** Rows of boards laid side by side across the deck. */
+  rows: number;
+  fullBoardsPerRow: number;
+  /** Length of the closing piece each row needs, 0 when the run is a whole number of boards. */
+  cutLength: number;
+  /** How many closing pieces one stock board yields. */
+  cutPiecesPerBoard: number;
+  fullBoards: number;
+  cutBoards: number;
+  totalQuantity: number;
+  /** End joints per row; boards must be butted together whenever the run exceeds one board. */
+  jointsPerRow: number;
+  needsEndJoints: boolean;
+  deckAreaM2: number;
+}
+
+// --- Calculations ---
+
+/**
+ * Lays boards of `spec` over a rectangular deck, row by row.
+ *
+ * Each row uses as many full-length boards as fit in the run and finishes
+ * with one cut piece. Cut pieces are shared between rows, so a 3000mm board
+ * can close two rows that each need 1200mm. Rows are spaced `coverWidth`
+ * apart, which is the board width unless a gap or overlap applies.
+ * Returns null for non-positive dimensions.
+ */
+export const planRectLayout = (spec: DeckSpec, input: RectLayoutInput, coverWidth: number = spec.w): RectLayoutPlan | null => {
+  const { widthMm, depthMm, direction } = input;
+  if (!(widthMm > 0) || !(depthMm > 0) || !(coverWidth > 0) || !(spec.l > 0)) return null;
+
+  const runLength = direction === 'width' ? widthMm : depthMm;
+  const across = direction === 'width' ? depthMm : widthMm;
+
+  const rows = Math.ceil(across / coverWidth);
+  const fullBoardsPerRow = Math.floor(runLength / spec.l);
+  const cutLength = runLength - fullBoardsPerRow * spec.l;
+  const cutPiecesPerBoard = cutLength > 0 ? Math.floor(spec.l / cutLength) : 0;
+
+  const fullBoards = rows * fullBoardsPerRow;
+  const cutBoards = cutLength > 0 ? Math.ceil(rows / cutPiecesPerBoard) : 0;
+  const jointsPerRow = Math.ceil(runLength / spec.l) - 1;
+
+  return {
+    runLength,
+    rows,
+    fullBoardsPerRow,
+    cutLength,
+    cutPiecesPerBoard,
+    fullBoards,
+    cutBoards,
+    totalQuantity: fullBoards + cutBoards,
+    jointsPerRow,
+    needsEndJoints: jointsPerRow > 0,
+    deckAreaM2: (widthMm * depthMm) / 1_000_000,
+  };
+};
@@ -0,0 +1,13 @@
+// --- Types ---
+
+/** A priced row listed next to the deck-board total, e.g. joists or clips. */
+export interface LineItem {
+  label: string;
+  /** Quantity description such as "12본 (6,000mm)". */
+  detail: string;
+  amount: number;
+}
+
+// --- Calculations ---
+
+export const sumLineItems = (items: LineItem[] = []) => items.reduce((sum, item) => sum + item.amount, 0);
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_COST_SETTINGS, DEFAULT_DISCOUNT, computeDiscount, computeMargin, describeDiscount, sellPriceFromCost, volumeDiscountPercent } from './margin';
+
+describe('sellPriceFromCost', () => {
+  it('adds a markup on cost or grosses cost up to a target margin', () => {
+    expect(sellPriceFromCost({ ...DEFAULT_COST_SETTINGS, costPerBoard: 10000, rule: 'markup', markupPercent: 25 })).toBe(12500);
+    expect(sellPriceFromCost({ ...DEFAULT_COST_SETTINGS, costPerBoard: 10000, rule: 'margin', marginPercent: 20 })).toBe(12500);
+  });
+
+  it('leaves the price to the user when typed in, without a cost or at a 100% margin', () => {
+    expect(sellPriceFromCost({ ...DEFAULT_COST_SETTINGS, costPerBoard: 10000 })).toBeNull();
+    expect(sellPriceFromCost({ ...DEFAULT_COST_SETTINGS, rule: 'markup' })).toBeNull();
+    expect(sellPriceFromCost({ ...DEFAULT_COST_SETTINGS, costPerBoard: 10000, rule: 'margin', marginPercent: 100 })).toBeNull();
+  });
+});
+
+describe('volumeDiscountPercent', () => {
+  it('picks the highest tier reached', () => {
+    const tiers = DEFAULT_DISCOUNT.volumeTiers;
+    expect(volumeDiscountPercent(tiers, 99)).toBe(0);
+    expect(volumeDiscountPercent(tiers, 300)).toBe(5);
+    expect(volumeDiscountPercent(tiers, 1000)).toBe(8);
+  });
+});
+
+describe('computeDiscount', () => {
+  it('takes the volume tier and then the quote discount off the sales', () => {
+    const setting = { ...DEFAULT_DISCOUNT, type: 'percent' as const, percent: 10, useVolumeTiers: true };
+    // 5% tier: 1,500,000 - 75,000 = 1,425,000, then 10% = 142,500
+    expect(computeDiscount(setting, 300, 1500000)).toEqual({ volumePercent: 5, discount: 217500 });
+  });
+
+  it('never discounts more than the sales', () => {
+    expect(computeDiscount({ ...DEFAULT_DISCOUNT, type: 'fixed', amount: 50000 }, 1, 15000).discount).toBe(15000);
+  });
+});
+
+describe('computeMargin', () => {
+  const base = { boardCount: 100, sales: 1500000, costPerBoard: 10000, vatMode: 'separate' as const };
+
+  it('applies the volume tier before the quote discount', () => {
+    const r = computeMargin({ ...base, discount: { ...DEFAULT_DISCOUNT, type: 'percent', percent: 10, useVolumeTiers: true } });
+    // 3% = 45,000, then 10% of 1,455,000 = 145,500
+    expect(r.volumePercent).toBe(3);
+    expect(r.discount).toBe(190500);
+    expect(r.netSales).toBe(1309500);
+    expect(r.cost).toBe(1000000);
+    expect(r.grossProfit).toBe(309500);
+    expect(r.marginPercent).toBeCloseTo((309500 / 1309500) * 100, 6);
+  });
+
+  it('caps a fixed discount at the sales', () => {
+    const r = computeMargin({ ...base, discount: { ...DEFAULT_DISCOUNT, type: 'fixed', amount: 2000000 } });
+    expect(r.discount).toBe(1500000);
+    expect(r.netSales).toBe(0);
+    expect(r.marginPercent).toBeNull();
+  });
+
+  it('takes VAT out of VAT-inclusive sales before comparing with cost', () => {
+    const r = computeMargin({ ...base, sales: 1320000, vatMode: 'included', discount: DEFAULT_DISCOUNT });
+    expect(r.grossProfit).toBe(200000);
+  });
+
+  it('reports no profit when the cost is unknown', () => {
+    const r = computeMargin({ ...base, costPerBoard: 0, discount: DEFAULT_DISCOUNT });
+    expect(r.grossProfit).toBeNull();
+    expect(r.discount).toBe(0);
+  });
+});
+
+describe('describeDiscount', () => {
+  it('lists the discounts taken', () => {
+    expect(describeDiscount({ ...DEFAULT_DISCOUNT, type: 'percent', percent: 10 }, 5)).toBe('수량 할인 5% · 10% 할인');
+    expect(describeDiscount(DEFAULT_DISCOUNT, 0)).toBe('');
+  });
+});
@@ -0,0 +1,149 @@
+import { VAT_RATE, VatMode } from './quote';
+
+// --- Types ---
+
+/** How the sell price is set: typed in, cost plus a markup, or cost grossed up to a target margin. */
+export type PricingRule = 'manual' | 'markup' | 'margin';
+
+export interface CostSettings {
+  /** Purchase cost (매입가) per board before VAT. 0 means unknown, which hides the profit figures. */
+  costPerBoard: number;
+  rule: PricingRule;
+  /** Profit as a percentage of cost, for 'markup'. */
+  markupPercent: number;
+  /** Profit as a percentage of the sell price, for 'margin'. */
+  marginPercent: number;
+}
+
+export type DiscountType = 'none' | 'percent' | 'fixed';
+
+/** Percent off the deck boards from `minBoards` boards up. */
+export interface VolumeTier {
+  minBoards: number;
+  percent: number;
+}
+
+export interface DiscountSetting {
+  type: DiscountType;
+  percent: number;
+  amount: number;
+  useVolumeTiers: boolean;
+  volumeTiers: VolumeTier[];
+}
+
+export interface MarginResult {
+  /** Deck boards at the sell price, before discounts. */
+  sales: number;
+  /** Volume tier reached by the board count, 0 when tiers are off or none applies. */
+  volumePercent: number;
+  /** Volume and quote discounts together, in won. */
+  discount: number;
+  netSales: number;
+  cost: number;
+  /** Net sales before VAT less cost. Null when the cost is unknown. */
+  grossProfit: number | null;
+  /** Gross profit as a percentage of net sales before VAT. */
+  marginPercent: number | null;
+}
+
+// --- Constants ---
+
+export const PRICING_RULE_LABELS: Record<PricingRule, string> = {
+  manual: '직접 입력',
+  markup: '원가 + 마진율',
+  margin: '목표 이익률',
+};
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  none: '없음',
+  percent: '% 할인',
+  fixed: '금액 할인',
+};
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+  costPerBoard: 0,
+  rule: 'manual',
+  markupPercent: 20,
+  marginPercent: 15,
+};
+
+export const DEFAULT_DISCOUNT: DiscountSetting = {
+  type: 'none',
+  percent: 0,
+  amount: 0,
+  useVolumeTiers: false,
+  volumeTiers: [
+    { minBoards: 100, percent: 3 },
+    { minBoards: 300, percent: 5 },
+    { minBoards: 500, percent: 8 },
+  ],
+};
+
+// --- Calculations ---
+
+/** Sell price per board set by the cost rule, or null when it is typed in (or the margin is 100% or more). */
+export const sellPriceFromCost = (settings: CostSettings) => {
+  if (settings.costPerBoard <= 0) return null;
+  if (settings.rule === 'markup') return Math.round(settings.costPerBoard * (1 + settings.markupPercent / 100));
+  if (settings.rule === 'margin' && settings.marginPercent < 100) {
+    return Math.round(settings.costPerBoard / (1 - settings.marginPercent / 100));
+  }
+  return null;
+};
+
+/** Percent of the highest tier the board count reaches. */
+export const volumeDiscountPercent = (tiers: VolumeTier[], boardCount: number) =>
+  tiers.reduce((best, tier) => (tier.minBoards > 0 && boardCount >= tier.minBoards ? Math.max(best, tier.percent) : best), 0);
+
+/** "수량 할인 5% · 10% 할인", empty when nothing is taken off. */
+export const describeDiscount = (setting: DiscountSetting, volumePercent: number) =>
+  [
+    volumePercent > 0 && `수량 할인 ${volumePercent}%`,
+    setting.type === 'percent' && setting.percent > 0 && `${setting.percent}% 할인`,
+    setting.type === 'fixed' && setting.amount > 0 && '특별 할인',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/**
+ * Discount on `sales` for `boardCount` boards. The volume tier comes off
+ * first and the quote discount off what is left; the total never exceeds
+ * the sales.
+ */
+export const computeDiscount = (setting: DiscountSetting, boardCount: number, sales: number) => {
+  const volumePercent = setting.useVolumeTiers ? volumeDiscountPercent(setting.volumeTiers, boardCount) : 0;
+  const volumeOff = Math.round((sales * volumePercent) / 100);
+  const remaining = sales - volumeOff;
+  const quoteOff =
+    setting.type === 'percent'
+      ? Math.round((remaining * Math.max(0, setting.percent)) / 100)
+      : setting.type === 'fixed'
+        ? Math.max(0, setting.amount)
+        : 0;
+  return { volumePercent, discount: Math.min(sales, volumeOff + quoteOff) };
+};
+
+/** Discounts (see computeDiscount) and gross profit on the deck boards. Profit compares sales without VAT against the purchase cost. */
+export const computeMargin = ({
+  boardCount,
+  sales,
+  costPerBoard,
+  vatMode,
+  discount,
+}: {
+  boardCount: number;
+  sales: number;
+  costPerBoard: number;
+  vatMode: VatMode;
+  discount: DiscountSetting;
+}): MarginResult => {
+  const { volumePercent, discount: total } = computeDiscount(discount, boardCount, sales);
+  const netSales = sales - total;
+
+  const cost = Math.round(boardCount * Math.max(0, costPerBoard));
+  const salesBeforeVat = vatMode === 'included' ? netSales / (1 + VAT_RATE) : netSales;
+  const grossProfit = costPerBoard > 0 ? Math.round(salesBeforeVat - cost) : null;
+  const marginPercent = grossProfit !== null && salesBeforeVat > 0 ? (grossProfit / salesBeforeVat) * 100 : null;
+
+  return { sales, volumePercent, discount: total, netSales, cost, grossProfit, marginPercent };
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { buildPdf, fitText, textWidth } from './pdf';
+
+const decode = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+describe('textWidth', () => {
+  it('counts ASCII as half and Korean as full width', () => {
+    expect(textWidth('AB', 10)).toBe(10);
+    expect(textWidth('견적', 10)).toBe(20);
+  });
+
+  it('shortens text that does not fit', () => {
+    expect(fitText('데크', 10, 100)).toBe('데크');
+    const fitted = fitText('합성목재 솔리드 월넛', 10, 60);
+    expect(fitted.endsWith('…')).toBe(true);
+    expect(textWidth(fitted, 10)).toBeLessThanOrEqual(60);
+  });
+});
+
+describe('buildPdf', () => {
+  const pdf = decode(
+    buildPdf({
+      title: '견적서',
+      pages: [
+        [{ type: 'text', x: 40, y: 60, text: '견적 A', size: 12 }],
+        [{ type: 'line', x1: 40, y1: 100, x2: 200, y2: 100 }],
+      ],
+    })
+  );
+
+  it('writes a complete file with one page per command list', () => {
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    // "견적 A" as UCS-2 hex
+    expect(pdf).toContain('<acacc80100200041> Tj');
+  });
+
+  it('points every xref entry at its object', () => {
+    const xrefStart = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const entries = pdf.slice(xrefStart).split('\n').slice(3).filter((line) => / n $/.test(line));
+    entries.forEach((line, i) => {
+      const offset = Number(line.slice(0, 10));
+      expect(pdf.slice(offset, offset + 10)).toMatch(new RegExp(`^${i + 1} 0 obj`));
+    });
+    expect(entries.length).toBeGreaterThan(0);
+  });
+});
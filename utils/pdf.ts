@@ -0,0 +1,162 @@
+// --- Types ---
+
+/** Colour components 0–1. */
+export type Rgb = [number, number, number];
+
+/**
+ * Drawing commands in points, measured from the top-left corner of the page
+ * (the writer flips them to PDF's bottom-left origin). Text `y` is the baseline.
+ */
+export type PdfCommand =
+  | { type: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; align?: 'left' | 'center' | 'right'; color?: Rgb }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; width?: number; color?: Rgb }
+  | { type: 'rect'; x: number; y: number; w: number; h: number; fill: Rgb }
+  | { type: 'image'; x: number; y: number; w: number; h: number; name: string };
+
+/** A baseline JPEG, embedded as is. */
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface PdfDocumentInput {
+  title: string;
+  pages: PdfCommand[][];
+  images?: Record<string, PdfImage>;
+}
+
+// --- Constants ---
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+/**
+ * Korean text uses the Adobe-Korea1 standard font, which PDF viewers supply
+ * themselves, so no font file has to be embedded.
+ */
+const FONT_NAME = 'HYGoThic-Medium';
+const ASCII_WIDTH = 500;
+const FULL_WIDTH = 1000;
+
+// --- Text ---
+
+/** Advance width in points, matching the widths declared for the font below. */
+export const textWidth = (text: string, size: number) =>
+  [...text].reduce((sum, ch) => sum + (ch.charCodeAt(0) < 0x7f ? ASCII_WIDTH : FULL_WIDTH), 0) * (size / 1000);
+
+/** Shortens `text` with an ellipsis so it fits in `maxWidth`. */
+export const fitText = (text: string, size: number, maxWidth: number) => {
+  if (textWidth(text, size) <= maxWidth) return text;
+  let chars = [...text];
+  while (chars.length > 0 && textWidth(chars.join('') + '…', size) > maxWidth) chars = chars.slice(0, -1);
+  return chars.join('') + '…';
+};
+
+/** UTF-16BE hex for the UniKS-UCS2-H encoding; characters outside the BMP are dropped. */
+const toUcs2Hex = (text: string) =>
+  [...text]
+    .filter((ch) => ch.length === 1)
+    .map((ch) => ch.charCodeAt(0).toString(16).padStart(4, '0'))
+    .join('');
+
+// --- Writer ---
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+const rgb = ([r, g, b]: Rgb) => `${num(r)} ${num(g)} ${num(b)}`;
+
+const renderCommand = (cmd: PdfCommand, pageHeight: number): string => {
+  switch (cmd.type) {
+    case 'text': {
+      const width = textWidth(cmd.text, cmd.size);
+      const x = cmd.align === 'right' ? cmd.x - width : cmd.align === 'center' ? cmd.x - width / 2 : cmd.x;
+      // Bold is faked with a thin outline, since the standard font has one weight
+      const mode = cmd.bold ? `2 Tr ${num(cmd.size / 30)} w ${rgb(cmd.color ?? [0, 0, 0])} RG` : '0 Tr';
+      return `BT /F1 ${num(cmd.size)} Tf ${mode} ${rgb(cmd.color ?? [0, 0, 0])} rg ${num(x)} ${num(pageHeight - cmd.y)} Td <${toUcs2Hex(cmd.text)}> Tj ET`;
+    }
+    case 'line':
+      return `${num(cmd.width ?? 0.5)} w ${rgb(cmd.color ?? [0, 0, 0])} RG ${num(cmd.x1)} ${num(pageHeight - cmd.y1)} m ${num(cmd.x2)} ${num(pageHeight - cmd.y2)} l S`;
+    case 'rect':
+      return `${rgb(cmd.fill)} rg ${num(cmd.x)} ${num(pageHeight - cmd.y - cmd.h)} ${num(cmd.w)} ${num(cmd.h)} re f`;
+    case 'image':
+      return `q ${num(cmd.w)} 0 0 ${num(cmd.h)} ${num(cmd.x)} ${num(pageHeight - cmd.y - cmd.h)} cm /${cmd.name} Do Q`;
+  }
+};
+
+/** Writes a complete PDF file for A4 pages. */
+export const buildPdf = ({ title, pages, images = {} }: PdfDocumentInput): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Object ids: 1 catalog, 2 page tree, 3–5 font, 6 info, then images, then a page + contents pair per page
+  const imageNames = Object.keys(images);
+  const imageIds = Object.fromEntries(imageNames.map((name, i) => [name, 7 + i]));
+  const firstPageId = 7 + imageNames.length;
+  const pageIds = pages.map((_, i) => firstPageId + i * 2);
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, `<< /Type /Font /Subtype /Type0 /BaseFont /${FONT_NAME} /Encoding /UniKS-UCS2-H /DescendantFonts [4 0 R] >>`);
+  writeObject(
+    4,
+    `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${FONT_NAME} /CIDSystemInfo << /Registry (Adobe) /Ordering (Korea1) /Supplement 1 >> ` +
+      `/FontDescriptor 5 0 R /DW ${FULL_WIDTH} /W [1 [${Array(95).fill(ASCII_WIDTH).join(' ')}]] >>`
+  );
+  writeObject(
+    5,
+    `<< /Type /FontDescriptor /FontName /${FONT_NAME} /Flags 6 /FontBBox [-6 -145 1003 880] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 720 /StemV 93 >>`
+  );
+  writeObject(6, `<< /Title <feff${toUcs2Hex(title)}> /Producer (deck-calculator) >>`);
+
+  imageNames.forEach((name) => {
+    const image = images[name];
+    writeObject(
+      imageIds[name],
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+      image.data
+    );
+  });
+
+  const xObjects = imageNames.map((name) => `/${name} ${imageIds[name]} 0 R`).join(' ');
+  pages.forEach((commands, i) => {
+    const content = encoder.encode(commands.map((cmd) => renderCommand(cmd, A4.height)).join('\n'));
+    writeObject(
+      pageIds[i],
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+        `/Resources << /Font << /F1 3 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> /Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    writeObject(pageIds[i] + 1, `<< /Length ${content.length} >>`, content);
+  });
+
+  const xrefOffset = length;
+  const objectCount = firstPageId + pages.length * 2;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, pos);
+    pos += chunk.length;
+  }
+  return out;
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatVertexList,
+  getBounds,
+  outlineAreaM2,
+  outlinePerimeterM,
+  outlineToPath,
+  parseVertexList,
+  polygonArea,
+  polygonPerimeter,
+} from './polygon';
+
+const L_SHAPE = parseVertexList('0,0 6000,0 6000,3000 3000,3000 3000,5000 0,5000')!;
+
+describe('parseVertexList', () => {
+  it('accepts spaces, newlines and semicolons between pairs', () => {
+    expect(parseVertexList('0,0;100,0\n100,50  0,50')).toEqual([
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 50 },
+      { x: 0, y: 50 },
+    ]);
+  });
+
+  it('rejects malformed pairs', () => {
+    expect(parseVertexList('0,0 100')).toBeNull();
+    expect(parseVertexList('0,0 a,1')).toBeNull();
+    expect(parseVertexList('0,0 1,')).toBeNull();
+  });
+
+  it('round-trips through formatVertexList', () => {
+    expect(parseVertexList(formatVertexList(L_SHAPE))).toEqual(L_SHAPE);
+  });
+});
+
+describe('polygon geometry', () => {
+  it('computes the area of an L shape in either winding order', () => {
+    expect(polygonArea(L_SHAPE)).toBe(6000 * 3000 + 3000 * 2000);
+    expect(polygonArea([...L_SHAPE].reverse())).toBe(24_000_000);
+  });
+
+  it('computes a closed perimeter', () => {
+    expect(polygonPerimeter(L_SHAPE)).toBe(2 * (6000 + 5000));
+    expect(polygonPerimeter([{ x: 0, y: 0 }, { x: 3000, y: 0 }, { x: 0, y: 4000 }])).toBe(12000);
+  });
+
+  it('treats fewer than three vertices as no area', () => {
+    expect(polygonArea([{ x: 0, y: 0 }, { x: 10, y: 10 }])).toBe(0);
+  });
+
+  it('subtracts cut-outs from the area and adds their edges to the perimeter', () => {
+    const column = parseVertexList('1000,1000 1300,1000 1300,1300 1000,1300')!;
+    const outline = { outer: L_SHAPE, holes: [column] };
+    expect(outlineAreaM2(outline)).toBeCloseTo(24 - 0.09, 10);
+    expect(outlinePerimeterM(outline)).toBeCloseTo(22 + 1.2, 10);
+  });
+
+  it('returns bounds and an SVG path', () => {
+    expect(getBounds(L_SHAPE)).toEqual({ minX: 0, minY: 0, maxX: 6000, maxY: 5000 });
+    expect(getBounds([])).toBeNull();
+    expect(outlineToPath({ outer: L_SHAPE.slice(0, 3), holes: [[]] })).toBe('M0 0 L6000 0 L6000 3000 Z');
+  });
+});
@@ -0,0 +1,109 @@
+// --- Types ---
+
+/** A vertex in mm. */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface DeckOutline {
+  outer: Point[];
+  /** Cut-outs such as columns or planters, subtracted from the outer area. */
+  holes: Point[][];
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// --- Parsing ---
+
+/**
+ * Parses a vertex list such as "0,0 6000,0 6000,3000 0,3000".
+ * Pairs may be separated by spaces, newlines or semicolons.
+ * Returns null if any pair is not two numbers.
+ */
+export const parseVertexList = (text: string): Point[] | null => {
+  const tokens = text.split(/[\s;]+/).filter(Boolean);
+  const points: Point[] = [];
+  for (const token of tokens) {
+    const parts = token.split(',');
+    if (parts.length !== 2) return null;
+    const x = Number(parts[0]);
+    const y = Number(parts[1]);
+    if (parts[0] === '' || parts[1] === '' || !Number.isFinite(x) || !Number.isFinite(y)) return null;
+    points.push({ x, y });
+  }
+  return points;
+};
+
+export const formatVertexList = (points: Point[]) => points.map((p) => `${p.x},${p.y}`).join(' ');
+
+// --- Geometry ---
+
+/** Shoelace area in mm², always positive regardless of winding order. */
+export const polygonArea = (points: Point[]) => {
+  if (points.length < 3) return 0;
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+/** Closed perimeter in mm. */
+export const polygonPerimeter = (points: Point[]) => {
+  if (points.length < 2) return 0;
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return sum;
+};
+
+/** Deck area in m² with cut-outs removed. Never negative. */
+export const outlineAreaM2 = (outline: DeckOutline) => {
+  const holes = outline.holes.reduce((sum, hole) => sum + polygonArea(hole), 0);
+  return Math.max(0, polygonArea(outline.outer) - holes) / 1_000_000;
+};
+
+/** Finished edge length in m, including the edges around cut-outs. */
+export const outlinePerimeterM = (outline: DeckOutline) => {
+  const holes = outline.holes.reduce((sum, hole) => sum + polygonPerimeter(hole), 0);
+  return (polygonPerimeter(outline.outer) + holes) / 1000;
+};
+
+export const getBounds = (points: Point[]): Bounds | null => {
+  if (points.length === 0) return null;
+  return points.reduce<Bounds>(
+    (b, p) => ({
+      minX: Math.min(b.minX, p.x),
+      minY: Math.min(b.minY, p.y),
+      maxX: Math.max(b.maxX, p.x),
+      maxY: Math.max(b.maxY, p.y),
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
+};
+
+/** SVG path data for the outline; pair with fill-rule="evenodd" so holes stay open. */
+export const outlineToPath = (outline: DeckOutline) =>
+  [outline.outer, ...outline.holes]
+    .filter((ring) => ring.length >= 3)
+    .map((ring) => `M${ring.map((p) => `${p.x} ${p.y}`).join(' L')} Z`)
+    .join(' ');
+
+// --- Presets ---
+
+export const OUTLINE_PRESETS: { label: string; outer: string }[] = [
+  { label: '사각형', outer: '0,0 4000,0 4000,3000 0,3000' },
+  { label: 'L자형', outer: '0,0 6000,0 6000,3000 3000,3000 3000,5000 0,5000' },
+  { label: '모서리 절단', outer: '0,0 5000,0 5000,2000 4000,3000 0,3000' },
+];
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BUSINESS,
+  DEFAULT_FREIGHT,
+  boardsTotalCost,
+  computeFreight,
+  computePriceBreakdown,
+  computeValidUntil,
+  describeBusiness,
+  describePriceNote,
+  getItemTotal,
+  nextQuoteNumber,
+  remainingValidDays,
+  summarizeProject,
+} from './quote';
+import { savedItem } from './testFixtures';
+
+describe('getItemTotal', () => {
+  it('adds line items to the board total and takes off discounts', () => {
+    expect(getItemTotal(savedItem())).toBe(150000);
+    expect(getItemTotal(savedItem({ lineItems: [{ label: '장선', detail: '', amount: 30000 }] }))).toBe(180000);
+    expect(getItemTotal(savedItem({ discount: 15000 }))).toBe(135000);
+  });
+});
+
+describe('summarizeProject', () => {
+  it('sums quantities, boards, extras and labour across lines', () => {
+    const summary = summarizeProject([
+      savedItem(),
+      savedItem({ id: 2, totalQuantity: 4, totalAreaM2: 1.14, totalPrice: 40000, lineItems: [{ label: '피스', detail: '', amount: 12000 }] }),
+      savedItem({ id: 3, totalQuantity: 0, totalAreaM2: 0, totalPrice: 0, labourItems: [{ label: '시공비', detail: '', amount: 500000 }] }),
+    ]);
+    expect(summary.totalQuantity).toBe(14);
+    expect(summary.totalAreaM2).toBeCloseTo(5.64, 10);
+    expect(summary.subtotal).toBe(190000);
+    expect(summary.extrasTotal).toBe(12000);
+    expect(summary.labourTotal).toBe(500000);
+    expect(summary.grandTotal).toBe(702000);
+    expect(summary.supplyTotal).toBe(702000);
+    expect(summary.vatExcluded).toBe(true);
+  });
+
+  it('totals each line as saved, with its VAT and freight', () => {
+    const summary = summarizeProject([
+      savedItem({ vatMode: 'add', pricing: { materials: 150000, freight: 50000, supply: 200000, vat: 20000, total: 220000 } }),
+      savedItem({ id: 2, vatMode: 'included', pricing: { materials: 150000, freight: 0, supply: 136364, vat: 13636, total: 150000 } }),
+      savedItem({ id: 3 }),
+    ]);
+    expect(summary.freightTotal).toBe(50000);
+    expect(summary.supplyTotal).toBe(486364);
+    expect(summary.vatTotal).toBe(33636);
+    expect(summary.grandTotal).toBe(520000);
+    expect(summary.vatExcluded).toBe(true);
+    expect(summarizeProject([savedItem({ vatMode: 'add', pricing: { materials: 150000, freight: 0, supply: 150000, vat: 15000, total: 165000 } })]).vatExcluded).toBe(false);
+  });
+
+  it('is all zeros for an empty project', () => {
+    expect(summarizeProject([]).grandTotal).toBe(0);
+  });
+});
+
+describe('computeFreight', () => {
+  it('supports flat, per-board and regional fees', () => {
+    expect(computeFreight(DEFAULT_FREIGHT, 40)).toBe(0);
+    expect(computeFreight({ ...DEFAULT_FREIGHT, method: 'flat', flatFee: 30000 }, 40)).toBe(30000);
+    expect(computeFreight({ ...DEFAULT_FREIGHT, method: 'per_board', perBoard: 500 }, 40)).toBe(20000);
+    expect(computeFreight({ ...DEFAULT_FREIGHT, method: 'region', region: '제주' }, 40)).toBe(250000);
+    expect(computeFreight({ ...DEFAULT_FREIGHT, method: 'region', region: '화성' }, 40)).toBe(0);
+  });
+});
+
+describe('computePriceBreakdown', () => {
+  it('adds 10% VAT on top of materials and freight', () => {
+    expect(computePriceBreakdown(150000, 50000, 'add')).toEqual({
+      materials: 150000,
+      labour: 0,
+      freight: 50000,
+      supply: 200000,
+      vat: 20000,
+      total: 220000,
+    });
+  });
+
+  it('counts labour into the supply amount', () => {
+    expect(computePriceBreakdown(150000, 0, 'add', 100000)).toMatchObject({ labour: 100000, supply: 250000, vat: 25000, total: 275000 });
+  });
+
+  it('backs VAT out of VAT-inclusive prices', () => {
+    const b = computePriceBreakdown(110000, 0, 'included');
+    expect(b.supply).toBe(100000);
+    expect(b.vat).toBe(10000);
+    expect(b.total).toBe(110000);
+  });
+
+  it('keeps supply and total whole when VAT does not divide evenly', () => {
+    const b = computePriceBreakdown(15001, 0, 'included');
+    expect(b.supply + b.vat).toBe(15001);
+    expect(Number.isInteger(b.supply)).toBe(true);
+  });
+
+  it('leaves VAT at zero when it is quoted separately', () => {
+    expect(computePriceBreakdown(150000, 10000, 'separate')).toMatchObject({ supply: 160000, vat: 0, total: 160000 });
+  });
+});
+
+describe('boardsTotalCost', () => {
+  it('applies per-board freight and VAT to the board count', () => {
+    const freight = { ...DEFAULT_FREIGHT, method: 'per_board' as const, perBoard: 500 };
+    // (10 × 15,000 + 10 × 500) × 1.1
+    expect(boardsTotalCost(10, 15000, freight, 'add')).toBe(170500);
+    expect(boardsTotalCost(10, 15000, DEFAULT_FREIGHT, 'separate')).toBe(150000);
+  });
+
+  it('takes the discount off the boards before freight and VAT', () => {
+    expect(boardsTotalCost(10, 15000, DEFAULT_FREIGHT, 'add', (count, sales) => sales * 0.1)).toBe(148500);
+  });
+});
+
+describe('describePriceNote', () => {
+  it('keeps the original note when nothing is included', () => {
+    expect(describePriceNote('separate', 0)).toBe('(부가세 및 운임 별도)');
+    expect(describePriceNote('add', 0)).toBe('(부가세 포함 · 운임 별도)');
+    expect(describePriceNote('included', 30000)).toBe('(부가세 포함 · 운임 포함)');
+  });
+});
+
+describe('nextQuoteNumber', () => {
+  const oct = new Date(2026, 9, 19).getTime();
+
+  it('counts up within a month and restarts in the next', () => {
+    expect(nextQuoteNumber({ period: '2026-10', last: 41 }, oct)).toEqual({
+      quoteNumber: '2026-10-0042',
+      sequence: { period: '2026-10', last: 42 },
+    });
+    expect(nextQuoteNumber({ period: '2026-09', last: 120 }, oct).quoteNumber).toBe('2026-10-0001');
+    expect(nextQuoteNumber({ period: '', last: 0 }, oct).quoteNumber).toBe('2026-10-0001');
+  });
+});
+
+describe('validity', () => {
+  it('runs to the end of the last day and counts the days left', () => {
+    const issued = new Date(2026, 9, 19, 14, 0).getTime();
+    const until = computeValidUntil(issued, 30);
+    expect(new Date(until)).toEqual(new Date(2026, 10, 18, 23, 59, 59, 999));
+    expect(remainingValidDays(until, issued)).toBe(30);
+    expect(remainingValidDays(until, until + 1)).toBe(1);
+  });
+});
+
+describe('describeBusiness', () => {
+  it('leaves out empty fields', () => {
+    expect(describeBusiness(DEFAULT_BUSINESS)).toBe('데크센터');
+    expect(describeBusiness({ ...DEFAULT_BUSINESS, contactName: '김대리', phone: '010-1234-5678' })).toBe('데크센터 · 담당 김대리 · 010-1234-5678');
+  });
+});
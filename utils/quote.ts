@@ -0,0 +1,242 @@
+import type { BusinessDetails, QuoteCustomer, SavedItem } from '../types';
+import { sumLineItems } from './lineItems';
+
+// --- Types ---
+
+/**
+ * 'separate' leaves VAT off the quote ("부가세 별도"), 'add' adds 10% on top
+ * of the entered prices and 'included' treats the entered prices as VAT-inclusive.
+ */
+export type VatMode = 'separate' | 'add' | 'included';
+
+export type FreightMethod = 'none' | 'flat' | 'per_board' | 'region';
+
+export interface FreightSetting {
+  method: FreightMethod;
+  flatFee: number;
+  perBoard: number;
+  region: string;
+}
+
+export interface PriceBreakdown {
+  materials: number;
+  /** Installation and extra work. Missing on items saved before labour was estimated. */
+  labour?: number;
+  freight: number;
+  /** 공급가액: materials, labour and freight before VAT. */
+  supply: number;
+  vat: number;
+  total: number;
+}
+
+/** Last quote number handed out in `period` ("2026-10"); numbering restarts every month. */
+export interface QuoteSequence {
+  period: string;
+  last: number;
+}
+
+/** Number given to the PDF of all saved quotes, reused while the list holds the same quotes. */
+export interface ListQuote {
+  itemIds: number[];
+  quoteNumber: string;
+}
+
+export interface ProjectSummary {
+  totalQuantity: number;
+  totalAreaM2: number;
+  /** Deck boards across all lines, after discounts. */
+  subtotal: number;
+  /** Substructure, fasteners and other line items across all lines. */
+  extrasTotal: number;
+  labourTotal: number;
+  freightTotal: number;
+  /** 공급가액 across all lines; lines saved before VAT options count as VAT excluded. */
+  supplyTotal: number;
+  vatTotal: number;
+  /** Whether any line leaves VAT out of its total. */
+  vatExcluded: boolean;
+  /** Sum of each line's total as shown on its own card, VAT and freight included. */
+  grandTotal: number;
+}
+
+// --- Constants ---
+
+export const VAT_RATE = 0.1;
+
+export const VAT_MODE_LABELS: Record<VatMode, string> = {
+  separate: '별도 표기',
+  add: '10% 추가',
+  included: '단가에 포함',
+};
+
+export const FREIGHT_METHOD_LABELS: Record<FreightMethod, string> = {
+  none: '없음',
+  flat: '정액',
+  per_board: '장당',
+  region: '지역별',
+};
+
+/** Flat delivery fee per region, from the Gyeonggi warehouse. */
+export const REGION_FREIGHT: { region: string; fee: number }[] = [
+  { region: '서울', fee: 60000 },
+  { region: '경기/인천', fee: 70000 },
+  { region: '강원', fee: 120000 },
+  { region: '충청', fee: 100000 },
+  { region: '전라', fee: 140000 },
+  { region: '경상', fee: 140000 },
+  { region: '제주', fee: 250000 },
+];
+
+export const DEFAULT_BUSINESS: BusinessDetails = {
+  companyName: '데크센터',
+  registrationNumber: '',
+  contactName: '',
+  phone: '',
+};
+
+export const EMPTY_CUSTOMER: QuoteCustomer = { name: '', site: '', contact: '' };
+
+export const DEFAULT_VALID_DAYS = 30;
+
+export const DEFAULT_FREIGHT: FreightSetting = {
+  method: 'none',
+  flatFee: 50000,
+  perBoard: 500,
+  region: REGION_FREIGHT[0].region,
+};
+
+// --- Calculations ---
+
+/** Deck boards less discounts plus every extra line item and labour of one saved calculation. */
+export const getItemTotal = (item: SavedItem) =>
+  item.totalPrice - (item.discount ?? 0) + sumLineItems(item.lineItems) + sumLineItems(item.labourItems);
+
+export const summarizeProject = (items: SavedItem[]): ProjectSummary =>
+  items.reduce<ProjectSummary>(
+    (acc, item) => ({
+      totalQuantity: acc.totalQuantity + item.totalQuantity,
+      totalAreaM2: acc.totalAreaM2 + item.totalAreaM2,
+      subtotal: acc.subtotal + item.totalPrice - (item.discount ?? 0),
+      extrasTotal: acc.extrasTotal + sumLineItems(item.lineItems),
+      labourTotal: acc.labourTotal + sumLineItems(item.labourItems),
+      freightTotal: acc.freightTotal + (item.pricing?.freight ?? 0),
+      supplyTotal: acc.supplyTotal + (item.pricing?.supply ?? getItemTotal(item)),
+      vatTotal: acc.vatTotal + (item.pricing?.vat ?? 0),
+      vatExcluded: acc.vatExcluded || (item.vatMode ?? 'separate') === 'separate',
+      grandTotal: acc.grandTotal + (item.pricing?.total ?? getItemTotal(item)),
+    }),
+    {
+      totalQuantity: 0,
+      totalAreaM2: 0,
+      subtotal: 0,
+      extrasTotal: 0,
+      labourTotal: 0,
+      freightTotal: 0,
+      supplyTotal: 0,
+      vatTotal: 0,
+      vatExcluded: false,
+      grandTotal: 0,
+    }
+  );
+
+export const computeFreight = (setting: FreightSetting, boardCount: number) => {
+  switch (setting.method) {
+    case 'flat':
+      return setting.flatFee;
+    case 'per_board':
+      return Math.ceil(boardCount) * setting.perBoard;
+    case 'region':
+      return REGION_FREIGHT.find((r) => r.region === setting.region)?.fee ?? 0;
+    default:
+      return 0;
+  }
+};
+
+export const describeFreight = (setting: FreightSetting) => {
+  switch (setting.method) {
+    case 'flat':
+      return '정액';
+    case 'per_board':
+      return `장당 ${setting.perBoard.toLocaleString()}원`;
+    case 'region':
+      return setting.region;
+    default:
+      return '';
+  }
+};
+
+/** Footnote under a total saying what it includes, e.g. "(부가세 포함 · 운임 별도)". */
+export const describePriceNote = (vatMode: VatMode, freight: number) => {
+  const vatPart = vatMode === 'separate' ? '부가세 별도' : '부가세 포함';
+  const freightPart = freight > 0 ? '운임 포함' : '운임 별도';
+  if (vatMode === 'separate' && freight === 0) return '(부가세 및 운임 별도)';
+  return `(${vatPart} · ${freightPart})`;
+};
+
+/** Splits materials, labour and freight into supply amount, VAT and total. Amounts are rounded to whole won. */
+export const computePriceBreakdown = (materials: number, freight: number, vatMode: VatMode, labour = 0): PriceBreakdown => {
+  const subtotal = materials + labour + freight;
+  if (vatMode === 'add') {
+    const vat = Math.round(subtotal * VAT_RATE);
+    return { materials, labour, freight, supply: subtotal, vat, total: subtotal + vat };
+  }
+  if (vatMode === 'included') {
+    const supply = Math.round(subtotal / (1 + VAT_RATE));
+    return { materials, labour, freight, supply, vat: subtotal - supply, total: subtotal };
+  }
+  return { materials, labour, freight, supply: subtotal, vat: 0, total: subtotal };
+};
+
+/**
+ * Total for `boardCount` boards once `discountFor` (given the count and the
+ * boards' price) is taken off and freight and VAT are applied, for fitting
+ * boards into a budget.
+ */
+export const boardsTotalCost = (
+  boardCount: number,
+  unitPrice: number,
+  freight: FreightSetting,
+  vatMode: VatMode,
+  discountFor: (boardCount: number, sales: number) => number = () => 0
+) => {
+  const sales = Math.round(boardCount * unitPrice);
+  return computePriceBreakdown(sales - discountFor(boardCount, sales), computeFreight(freight, boardCount), vatMode).total;
+};
+
+// --- Quote numbers ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const periodOf = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/** Next number in the form "2026-10-0042" and the sequence to store after handing it out. */
+export const nextQuoteNumber = (sequence: QuoteSequence, now: number = Date.now()) => {
+  const period = periodOf(now);
+  const last = sequence.period === period ? sequence.last + 1 : 1;
+  return { quoteNumber: `${period}-${String(last).padStart(4, '0')}`, sequence: { period, last } };
+};
+
+/** End of the last valid day, `validDays` days after `issuedAt`. */
+export const computeValidUntil = (issuedAt: number, validDays: number) => {
+  const d = new Date(issuedAt + validDays * DAY_MS);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
+
+/** Days left until `validUntil` counted from today, at least 1 so a reissued quote stays valid. */
+export const remainingValidDays = (validUntil: number, now: number = Date.now()) =>
+  Math.max(1, Math.floor((validUntil - now) / DAY_MS));
+
+/** "상호 · 사업자등록번호 000-00-00000 · 담당 홍길동 · 010-..." with empty fields left out. */
+export const describeBusiness = (business: BusinessDetails) =>
+  [
+    business.companyName,
+    business.registrationNumber && `사업자등록번호 ${business.registrationNumber}`,
+    business.contactName && `담당 ${business.contactName}`,
+    business.phone,
+  ]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { SavedItem } from '../types';
+import type { PdfCommand } from './pdf';
+import { DEFAULT_BUSINESS, computeValidUntil } from './quote';
+import { computeQuoteTotals, layoutQuoteDocument } from './quoteDocument';
+import { savedItem } from './testFixtures';
+
+const texts = (page: PdfCommand[]) => page.flatMap((cmd) => (cmd.type === 'text' ? [cmd.text] : []));
+
+const input = (items: SavedItem[]) => ({
+  quoteNumber: '2026-10-0042',
+  issuedAt: new Date(2026, 9, 19).getTime(),
+  validUntil: computeValidUntil(new Date(2026, 9, 19).getTime(), 30),
+  business: { ...DEFAULT_BUSINESS, registrationNumber: '123-45-67890', phone: '031-000-0000' },
+  customer: { name: '홍길동', site: '김포 옥상', contact: '' },
+  items,
+});
+
+describe('computeQuoteTotals', () => {
+  it('sums saved pricing and falls back to VAT-excluded totals for older items', () => {
+    const totals = computeQuoteTotals([
+      savedItem({ vatMode: 'add', pricing: { materials: 150000, freight: 0, supply: 150000, vat: 15000, total: 165000 } }),
+      savedItem({ id: 2, lineItems: [{ label: '장선', detail: '', amount: 30000 }] }),
+    ]);
+    expect(totals).toEqual({ materials: 330000, labour: 0, supply: 330000, vat: 15000, total: 345000, vatExcluded: true });
+  });
+});
+
+describe('layoutQuoteDocument', () => {
+  it('prints header, customer, item rows and totals', () => {
+    const pages = layoutQuoteDocument(input([savedItem({ lineItems: [{ label: '장선', detail: '12본', amount: 30000 }] })]));
+    expect(pages).toHaveLength(1);
+    const all = texts(pages[0]);
+    expect(all).toContain('견적번호  2026-10-0042');
+    expect(all).toContain('데크센터');
+    expect(all).toContain('사업자등록번호 123-45-67890');
+    expect(all).toContain('유효기간  2026년 11월 18일까지');
+    expect(all).toContain('고객명  홍길동 귀하');
+    expect(all.some((t) => t.startsWith('연락처'))).toBe(false);
+    expect(all).toContain('장선');
+    expect(all).toContain('180,000원');
+    expect(all).toContain('1 / 1');
+  });
+
+  it('lists labour after the materials and splits the totals', () => {
+    const all = texts(layoutQuoteDocument(input([savedItem({ labourItems: [{ label: '시공비', detail: '1.4평 × 150,000원', amount: 500000 }] })]))[0]);
+    expect(all).toContain('1.4평 × 150,000원');
+    expect(all).toContain('자재비');
+    expect(all).toContain('150,000원');
+    expect(all).toContain('500,000원');
+    expect(all).toContain('650,000원');
+  });
+
+  it('shows discounts as a negative row and never the cost', () => {
+    const discounted = savedItem({ discount: 15000, discountLabel: '10% 할인', margin: { cost: 98765, grossProfit: 36235, marginPercent: 26.8 } });
+    const all = texts(layoutQuoteDocument(input([discounted]))[0]);
+    expect(all).toContain('-15,000');
+    expect(all).toContain('135,000원');
+    expect(all.some((t) => t.includes('98,765') || t.includes('36,235'))).toBe(false);
+  });
+
+  it('continues long quotes on further pages', () => {
+    const items = Array.from({ length: 30 }, (_, i) => savedItem({ id: i + 1, title: `구역 ${i + 1}` }));
+    const pages = layoutQuoteDocument(input(items));
+    expect(pages.length).toBeGreaterThan(1);
+    expect(texts(pages[1])).toContain('품목');
+    expect(texts(pages[pages.length - 1])).toContain(`${pages.length} / ${pages.length}`);
+    expect(pages.flatMap(texts).filter((t) => t.startsWith('구역'))).toHaveLength(30);
+  });
+});
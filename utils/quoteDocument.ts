@@ -0,0 +1,257 @@
+import type { BusinessDetails, QuoteCustomer, SavedItem } from '../types';
+import { PYEONG_TO_M2 } from './estimate';
+import { sumLineItems } from './lineItems';
+import { A4, PdfCommand, PdfImage, Rgb, buildPdf, fitText } from './pdf';
+import { getItemTotal } from './quote';
+
+// --- Types ---
+
+export interface QuoteDocumentInput {
+  quoteNumber: string;
+  issuedAt: number;
+  /** Last day the quoted prices hold. */
+  validUntil: number;
+  business: BusinessDetails;
+  customer: QuoteCustomer;
+  items: SavedItem[];
+  /** Company logo (JPEG), drawn top right when available. */
+  logo?: PdfImage | null;
+}
+
+export interface QuoteTotals {
+  /** Boards, discounts and line items as entered, before freight and VAT. */
+  materials: number;
+  /** Installation and extra work as entered, before freight and VAT. */
+  labour: number;
+  supply: number;
+  vat: number;
+  total: number;
+  /** True when some item left VAT off ("부가세 별도"). */
+  vatExcluded: boolean;
+}
+
+interface TableRow {
+  no: string;
+  name: string;
+  detail: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+  heading?: boolean;
+}
+
+// --- Constants ---
+
+export const quoteDisclaimer = (companyName: string) => [
+  '※ 본 견적은 참고용이며 실제 시공 비용은 현장 조건에 따라 달라질 수 있습니다.',
+  '※ 실제 시공 비용은 현장 조건, 자재 사양, 인건비, 시공 환경 등에 따라 달라질 수 있으며, 본 견적을 근거로 한',
+  `   계약, 발주, 시공 결과에 대해 ${companyName || '당사'}는 법적 책임을 지지 않습니다.`,
+];
+
+const MARGIN = 40;
+const CONTENT_RIGHT = A4.width - MARGIN;
+const ROW_HEIGHT = 18;
+const PAGE_BOTTOM = A4.height - 110;
+const BRAND: Rgb = [0, 0x42 / 255, 0x25 / 255];
+const MUTED: Rgb = [0.45, 0.5, 0.55];
+const RULE: Rgb = [0.8, 0.82, 0.85];
+
+/** Left edge of each table column; amounts are right-aligned to the next column's edge. */
+const COLUMNS = { no: MARGIN, name: MARGIN + 24, detail: MARGIN + 150, quantity: MARGIN + 330, unitPrice: MARGIN + 400, amount: MARGIN + 450 };
+
+// --- Calculations ---
+
+const won = (amount: number) => `${amount.toLocaleString('ko-KR')}`;
+
+const formatDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}년 ${d.getMonth() + 1}월 ${d.getDate()}일`;
+};
+
+/** Supply amount, VAT and total over every item; items saved before VAT options count as VAT excluded. */
+export const computeQuoteTotals = (items: SavedItem[]): QuoteTotals =>
+  items.reduce<QuoteTotals>(
+    (acc, item) => ({
+      materials: acc.materials + getItemTotal(item) - sumLineItems(item.labourItems),
+      labour: acc.labour + sumLineItems(item.labourItems),
+      supply: acc.supply + (item.pricing?.supply ?? getItemTotal(item)),
+      vat: acc.vat + (item.pricing?.vat ?? 0),
+      total: acc.total + (item.pricing?.total ?? getItemTotal(item)),
+      vatExcluded: acc.vatExcluded || (item.vatMode ?? 'separate') === 'separate',
+    }),
+    { materials: 0, labour: 0, supply: 0, vat: 0, total: 0, vatExcluded: false }
+  );
+
+const itemRows = (item: SavedItem, index: number): TableRow[] => [
+  { no: String(index + 1), name: item.title, detail: item.productName ?? '', quantity: '', unitPrice: '', amount: '', heading: true },
+  {
+    no: '',
+    name: '데크재',
+    detail: `${item.specs.t}T × ${item.specs.w} × ${item.specs.l}`,
+    quantity: `${item.totalQuantity.toLocaleString('ko-KR')}장`,
+    unitPrice: won(item.unitPrice),
+    amount: won(item.totalPrice),
+  },
+  ...(item.discount
+    ? [{ no: '', name: '할인', detail: item.discountLabel ?? '', quantity: '', unitPrice: '', amount: `-${won(item.discount)}` }]
+    : []),
+  ...(item.lineItems ?? []).map((line) => ({ no: '', name: line.label, detail: line.detail, quantity: '', unitPrice: '', amount: won(line.amount) })),
+  ...(item.labourItems ?? []).map((line) => ({ no: '', name: line.label, detail: line.detail, quantity: '', unitPrice: '', amount: won(line.amount) })),
+  ...(item.pricing && item.pricing.freight > 0
+    ? [{ no: '', name: '운임', detail: item.freightLabel ?? '', quantity: '', unitPrice: '', amount: won(item.pricing.freight) }]
+    : []),
+];
+
+// --- Layout ---
+
+const tableHeader = (y: number): PdfCommand[] => [
+  { type: 'rect', x: MARGIN, y: y - 13, w: CONTENT_RIGHT - MARGIN, h: ROW_HEIGHT, fill: [0.93, 0.95, 0.94] },
+  { type: 'text', x: COLUMNS.no, y, text: 'No', size: 9, bold: true },
+  { type: 'text', x: COLUMNS.name, y, text: '품목', size: 9, bold: true },
+  { type: 'text', x: COLUMNS.detail, y, text: '규격 / 내역', size: 9, bold: true },
+  { type: 'text', x: COLUMNS.unitPrice - 6, y, text: '수량', size: 9, bold: true, align: 'right' },
+  { type: 'text', x: COLUMNS.amount - 6, y, text: '단가', size: 9, bold: true, align: 'right' },
+  { type: 'text', x: CONTENT_RIGHT, y, text: '금액(원)', size: 9, bold: true, align: 'right' },
+];
+
+const tableRow = (row: TableRow, y: number): PdfCommand[] => {
+  const size = 9;
+  const commands: PdfCommand[] = [
+    { type: 'text', x: COLUMNS.no, y, text: row.no, size },
+    {
+      type: 'text',
+      x: row.heading ? COLUMNS.name : COLUMNS.name + 8,
+      y,
+      text: fitText(row.name, size, (row.heading ? COLUMNS.detail : COLUMNS.detail - 8) - COLUMNS.name - 6),
+      size,
+      bold: row.heading,
+    },
+    { type: 'text', x: COLUMNS.detail, y, text: fitText(row.detail, size, COLUMNS.quantity - COLUMNS.detail - 6), size, color: MUTED },
+    { type: 'text', x: COLUMNS.unitPrice - 6, y, text: row.quantity, size, align: 'right' },
+    { type: 'text', x: COLUMNS.amount - 6, y, text: row.unitPrice, size, align: 'right' },
+    { type: 'text', x: CONTENT_RIGHT, y, text: row.amount, size, align: 'right' },
+  ];
+  return commands.filter((cmd) => cmd.type !== 'text' || cmd.text);
+};
+
+const documentHeader = (input: QuoteDocumentInput): PdfCommand[] => {
+  const { business } = input;
+  const businessLines = [
+    business.registrationNumber && `사업자등록번호 ${business.registrationNumber}`,
+    [business.contactName && `담당 ${business.contactName}`, business.phone].filter(Boolean).join(' · '),
+  ].filter((line): line is string => !!line);
+  const commands: PdfCommand[] = [
+    { type: 'text', x: A4.width / 2, y: 70, text: '견 적 서', size: 24, bold: true, align: 'center', color: BRAND },
+    { type: 'line', x1: MARGIN, y1: 84, x2: CONTENT_RIGHT, y2: 84, width: 1.5, color: BRAND },
+    { type: 'text', x: MARGIN, y: 108, text: `견적번호  ${input.quoteNumber}`, size: 10 },
+    { type: 'text', x: MARGIN, y: 124, text: `견적일자  ${formatDay(input.issuedAt)}`, size: 10 },
+    { type: 'text', x: MARGIN, y: 140, text: `유효기간  ${formatDay(input.validUntil)}까지`, size: 10 },
+    { type: 'text', x: CONTENT_RIGHT, y: 140, text: business.companyName, size: 12, bold: true, align: 'right' },
+    ...businessLines.map<PdfCommand>((text, i) => ({ type: 'text', x: CONTENT_RIGHT, y: 154 + i * 12, text, size: 8, align: 'right', color: MUTED })),
+  ];
+  if (input.logo) {
+    const h = 28;
+    const w = (input.logo.width / input.logo.height) * h;
+    commands.push({ type: 'image', x: CONTENT_RIGHT - w, y: 96, w, h, name: 'Logo' });
+  }
+
+  const { name, site, contact } = input.customer;
+  const customerLines = [
+    name && `고객명  ${name} 귀하`,
+    site && `현장  ${site}`,
+    contact && `연락처  ${contact}`,
+  ].filter((line): line is string => !!line);
+  customerLines.forEach((line, i) => {
+    commands.push({ type: 'text', x: MARGIN, y: 176 + i * 16, text: line, size: 11, bold: i === 0 && !!name });
+  });
+  return commands;
+};
+
+const pageFooter = (companyName: string, page: number, pageCount: number): PdfCommand[] => [
+  { type: 'line', x1: MARGIN, y1: A4.height - 88, x2: CONTENT_RIGHT, y2: A4.height - 88, color: RULE },
+  ...quoteDisclaimer(companyName).map<PdfCommand>((text, i) => ({ type: 'text', x: MARGIN, y: A4.height - 72 + i * 11, text, size: 7, color: MUTED })),
+  { type: 'text', x: A4.width / 2, y: A4.height - 24, text: `${page} / ${pageCount}`, size: 8, align: 'center', color: MUTED },
+];
+
+/**
+ * Lays out an A4 quotation: header with quote number, dates and customer,
+ * one block of rows per saved item, then supply/VAT/total. Rows that do not
+ * fit continue on a new page under a repeated table header.
+ */
+export const layoutQuoteDocument = (input: QuoteDocumentInput): PdfCommand[][] => {
+  const pages: PdfCommand[][] = [];
+  let page: PdfCommand[] = documentHeader(input);
+  const customerLineCount = Object.values(input.customer).filter(Boolean).length;
+  let y = 176 + customerLineCount * 16 + 16;
+
+  const newPage = () => {
+    pages.push(page);
+    page = [];
+    y = MARGIN + 20;
+    page.push(...tableHeader(y));
+    y += ROW_HEIGHT + 2;
+  };
+
+  page.push(...tableHeader(y));
+  y += ROW_HEIGHT + 2;
+
+  input.items.forEach((item, index) => {
+    const rows = itemRows(item, index);
+    // Keep an item's heading together with at least its first row
+    if (y + ROW_HEIGHT * 2 > PAGE_BOTTOM) newPage();
+    rows.forEach((row) => {
+      if (y > PAGE_BOTTOM) newPage();
+      page.push(...tableRow(row, y));
+      y += ROW_HEIGHT;
+    });
+    page.push({ type: 'line', x1: MARGIN, y1: y - 12, x2: CONTENT_RIGHT, y2: y - 12, color: RULE });
+    y += 4;
+  });
+
+  const totals = computeQuoteTotals(input.items);
+  const quantity = input.items.reduce((sum, item) => sum + item.totalQuantity, 0);
+  const area = input.items.reduce((sum, item) => sum + item.totalAreaM2, 0);
+  const summaryRows: [string, string, boolean][] = [
+    ...(totals.labour > 0
+      ? ([
+          ['자재비', `${won(totals.materials)}원`, false],
+          ['시공비', `${won(totals.labour)}원`, false],
+        ] as [string, string, boolean][])
+      : []),
+    ['공급가액', `${won(totals.supply)}원`, false],
+    ['부가세', totals.vatExcluded && totals.vat === 0 ? '별도' : `${won(totals.vat)}원`, false],
+    ['합계', `${won(totals.total)}원`, true],
+  ];
+  if (y + 30 + summaryRows.length * 20 > PAGE_BOTTOM) newPage();
+
+  y += 8;
+  page.push({
+    type: 'text',
+    x: MARGIN,
+    y,
+    text: `데크재 ${quantity.toLocaleString('ko-KR')}장 · ${area.toFixed(2)}m² (${(area / PYEONG_TO_M2).toFixed(1)}평)`,
+    size: 9,
+    color: MUTED,
+  });
+  summaryRows.forEach(([label, value, strong]) => {
+    page.push(
+      { type: 'text', x: COLUMNS.unitPrice - 6, y, text: label, size: strong ? 12 : 10, bold: strong, align: 'right', color: strong ? BRAND : undefined },
+      { type: 'text', x: CONTENT_RIGHT, y, text: value, size: strong ? 14 : 10, bold: strong, align: 'right', color: strong ? BRAND : undefined }
+    );
+    y += strong ? 24 : 18;
+  });
+  if (totals.vatExcluded) {
+    page.push({ type: 'text', x: CONTENT_RIGHT, y, text: '* 부가세 별도 항목이 포함되어 있습니다.', size: 8, align: 'right', color: MUTED });
+  }
+  pages.push(page);
+
+  return pages.map((commands, i) => [...commands, ...pageFooter(input.business.companyName, i + 1, pages.length)]);
+};
+
+/** The quotation as PDF file bytes. */
+export const buildQuotePdf = (input: QuoteDocumentInput) =>
+  buildPdf({
+    title: `견적서 ${input.quoteNumber}`,
+    pages: layoutQuoteDocument(input),
+    images: input.logo ? { Logo: input.logo } : {},
+  });
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { SavedItem } from '../types';
+import { ShareState, buildShareUrl, decodeShareState, encodeShareState, shareStateFromItem } from './shareLink';
+
+const state: ShareState = {
+  thickness: 25,
+  width: 150,
+  length: 3000,
+  unitPrice: 15000,
+  mode: 'area_m2',
+  inputValue: '32.5',
+  customTitle: '김포 옥상 & 계단',
+  deckWidth: '',
+  deckDepth: '',
+  boardDirection: 'width',
+};
+
+describe('encodeShareState / decodeShareState', () => {
+  it('round-trips the form values', () => {
+    const decoded = decodeShareState(encodeShareState(state));
+    expect(decoded?.invalid).toEqual([]);
+    expect(decoded?.state).toEqual({
+      thickness: 25,
+      width: 150,
+      length: 3000,
+      unitPrice: 15000,
+      mode: 'area_m2',
+      inputValue: '32.5',
+      customTitle: '김포 옥상 & 계단',
+    });
+  });
+
+  it('carries the deck dimensions instead of the input in layout mode', () => {
+    const query = encodeShareState({ ...state, mode: 'layout', deckWidth: '4200', deckDepth: '3000', boardDirection: 'depth' });
+    expect(decodeShareState(query)?.state).toMatchObject({ mode: 'layout', deckWidth: '4200', deckDepth: '3000', boardDirection: 'depth' });
+    expect(decodeShareState(query)?.state.inputValue).toBeUndefined();
+  });
+
+  it('carries a price quoted per m²', () => {
+    const query = encodeShareState({ ...state, unitPrice: 50000, priceBasis: 'm2' });
+    expect(decodeShareState(query)?.state).toMatchObject({ unitPrice: 50000, priceBasis: 'm2' });
+    expect(encodeShareState({ ...state, priceBasis: 'board' })).not.toContain('pb=');
+  });
+
+  it('returns null for a link without calculator fields', () => {
+    expect(decodeShareState('')).toBeNull();
+    expect(decodeShareState('?utm_source=kakao')).toBeNull();
+  });
+
+  it('drops tampered fields and names them', () => {
+    const decoded = decodeShareState('?t=-5&w=150&l=abc&p=1.5&m=volume&v=1e9');
+    expect(decoded?.state).toEqual({ width: 150 });
+    expect(decoded?.invalid).toEqual(['두께', '길이', '단가', '계산 방식', '입력값']);
+  });
+});
+
+describe('buildShareUrl', () => {
+  it('replaces the existing query and hash', () => {
+    const url = new URL(buildShareUrl('https://deck.example/?t=19#saved', state));
+    expect(url.searchParams.get('t')).toBe('25');
+    expect(url.hash).toBe('');
+  });
+});
+
+describe('shareStateFromItem', () => {
+  it('falls back to the board count for items saved without form inputs', () => {
+    const item: SavedItem = {
+      id: 1,
+      title: '25T 150x3000',
+      specs: { t: 25, w: 150, l: 3000 },
+      inputLabel: '10장',
+      totalQuantity: 12,
+      totalAreaM2: 5.4,
+      totalPrice: 180000,
+      unitPrice: 15000,
+      timestamp: 0,
+    };
+    expect(shareStateFromItem(item)).toMatchObject({ mode: 'quantity', inputValue: '12', unitPrice: 15000, customTitle: '25T 150x3000' });
+  });
+});
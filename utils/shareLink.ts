@@ -0,0 +1,168 @@
+import type { CalculatorInputs, SavedItem } from '../types';
+import type { CalcMode, PriceBasis } from './estimate';
+import type { BoardDirection } from './layout';
+
+// --- Types ---
+
+/** The part of the calculator form carried in a shared link. */
+export type ShareState = Pick<
+  CalculatorInputs,
+  | 'thickness'
+  | 'width'
+  | 'length'
+  | 'unitPrice'
+  | 'priceBasis'
+  | 'mode'
+  | 'inputValue'
+  | 'customTitle'
+  | 'deckWidth'
+  | 'deckDepth'
+  | 'boardDirection'
+>;
+
+export interface ShareLinkResult {
+  /** Fields that were present and valid. */
+  state: Partial<ShareState>;
+  /** Korean names of fields that were present but invalid, e.g. ["두께"]. */
+  invalid: string[];
+}
+
+// --- Constants ---
+
+const CALC_MODES: CalcMode[] = ['quantity', 'area_m2', 'area_pyeong', 'layout', 'budget'];
+const DIRECTIONS: BoardDirection[] = ['width', 'depth'];
+const PRICE_BASES: PriceBasis[] = ['board', 'm2', 'pyeong', 'meter'];
+const MAX_DIMENSION_MM = 100000;
+const MAX_UNIT_PRICE = 100_000_000;
+const MAX_TITLE_LENGTH = 100;
+
+/** Query parameter per field, kept short so links stay readable in messengers. */
+const PARAMS = {
+  thickness: 't',
+  width: 'w',
+  length: 'l',
+  unitPrice: 'p',
+  priceBasis: 'pb',
+  mode: 'm',
+  inputValue: 'v',
+  customTitle: 'title',
+  deckWidth: 'dw',
+  deckDepth: 'dd',
+  boardDirection: 'dir',
+} as const satisfies Record<keyof ShareState, string>;
+
+const FIELD_LABELS: Record<keyof ShareState, string> = {
+  thickness: '두께',
+  width: '폭',
+  length: '길이',
+  unitPrice: '단가',
+  priceBasis: '단가 기준',
+  mode: '계산 방식',
+  inputValue: '입력값',
+  customTitle: '제목',
+  deckWidth: '가로',
+  deckDepth: '세로',
+  boardDirection: '시공 방향',
+};
+
+// --- Encoding ---
+
+const isDecimal = (value: string) => /^\d*\.?\d*$/.test(value);
+
+/**
+ * Query string (without "?") for `state`; layout dimensions are only included
+ * in layout mode and the price basis only when it is not per board.
+ */
+export const encodeShareState = (state: ShareState) => {
+  const params = new URLSearchParams();
+  params.set(PARAMS.thickness, String(state.thickness));
+  params.set(PARAMS.width, String(state.width));
+  params.set(PARAMS.length, String(state.length));
+  params.set(PARAMS.unitPrice, String(state.unitPrice));
+  if (state.priceBasis && state.priceBasis !== 'board') params.set(PARAMS.priceBasis, state.priceBasis);
+  params.set(PARAMS.mode, state.mode);
+  if (state.mode === 'layout') {
+    params.set(PARAMS.deckWidth, state.deckWidth);
+    params.set(PARAMS.deckDepth, state.deckDepth);
+    params.set(PARAMS.boardDirection, state.boardDirection);
+  } else if (state.inputValue) {
+    params.set(PARAMS.inputValue, state.inputValue);
+  }
+  if (state.customTitle.trim()) params.set(PARAMS.customTitle, state.customTitle.trim());
+  return params.toString();
+};
+
+export const buildShareUrl = (baseUrl: string, state: ShareState) => {
+  const url = new URL(baseUrl);
+  url.search = encodeShareState(state);
+  url.hash = '';
+  return url.toString();
+};
+
+/** What a saved card links to; items saved before form inputs were kept reopen as a board count. */
+export const shareStateFromItem = (item: SavedItem): ShareState =>
+  item.inputs
+    ? { ...item.inputs, customTitle: item.title }
+    : {
+        thickness: item.specs.t,
+        width: item.specs.w,
+        length: item.specs.l,
+        unitPrice: item.unitPrice,
+        mode: 'quantity',
+        inputValue: String(item.totalQuantity),
+        customTitle: item.title,
+        deckWidth: '',
+        deckDepth: '',
+        boardDirection: 'width',
+      };
+
+// --- Decoding ---
+
+/** The field's value, or undefined when `raw` is not acceptable for it. */
+const parseField = (key: keyof ShareState, raw: string): unknown => {
+  switch (key) {
+    case 'thickness':
+    case 'width':
+    case 'length': {
+      const n = Number(raw);
+      return raw !== '' && n > 0 && n <= MAX_DIMENSION_MM ? n : undefined;
+    }
+    case 'unitPrice': {
+      const n = Number(raw);
+      return raw !== '' && Number.isInteger(n) && n >= 0 && n <= MAX_UNIT_PRICE ? n : undefined;
+    }
+    case 'mode':
+      return CALC_MODES.includes(raw as CalcMode) ? raw : undefined;
+    case 'boardDirection':
+      return DIRECTIONS.includes(raw as BoardDirection) ? raw : undefined;
+    case 'priceBasis':
+      return PRICE_BASES.includes(raw as PriceBasis) ? raw : undefined;
+    case 'inputValue':
+    case 'deckWidth':
+    case 'deckDepth':
+      return raw.length <= 12 && isDecimal(raw) ? raw : undefined;
+    case 'customTitle':
+      return raw.length <= MAX_TITLE_LENGTH ? raw : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Reads a shared link's query string. Returns null when it carries no
+ * calculator fields, so ordinary visits are left alone.
+ */
+export const decodeShareState = (search: string): ShareLinkResult | null => {
+  const params = new URLSearchParams(search);
+  const keys = (Object.keys(PARAMS) as (keyof ShareState)[]).filter((key) => params.has(PARAMS[key]));
+  if (keys.length === 0) return null;
+
+  const state: Partial<Record<keyof ShareState, unknown>> = {};
+  const invalid: string[] = [];
+  for (const key of keys) {
+    const value = parseField(key, params.get(PARAMS[key])!.trim());
+    if (value === undefined) invalid.push(FIELD_LABELS[key]);
+    else state[key] = value;
+  }
+  return { state: state as Partial<ShareState>, invalid };
+};
@@ -0,0 +1,165 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { DEFAULT_BUSINESS } from './quote';
+import {
+  DEFAULT_SETTINGS,
+  FALLBACK_KEY,
+  LEGACY_ITEMS_KEY,
+  SCHEMA_VERSION,
+  StoredData,
+  daysUntilExpiry,
+  isExpired,
+  loadStoredData,
+  migrateStoredData,
+  pruneExpired,
+  saveStoredData,
+} from './storage';
+import { savedItem } from './testFixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const EMPTY = {
+  version: SCHEMA_VERSION,
+  settings: DEFAULT_SETTINGS,
+  business: DEFAULT_BUSINESS,
+  quoteSequence: { period: '', last: 0 },
+  listQuote: null,
+};
+
+describe('migrateStoredData', () => {
+  it('upgrades unversioned localStorage data with default settings', () => {
+    const data = migrateStoredData({ savedItems: [savedItem()], projects: [] });
+    expect(data).toEqual({ ...EMPTY, savedItems: [savedItem()], projects: [] });
+  });
+
+  it('starts empty when nothing is stored', () => {
+    expect(migrateStoredData(null)).toEqual({ ...EMPTY, savedItems: [], projects: [] });
+  });
+
+  it('keeps company details and the quote sequence from version 3', () => {
+    const data = migrateStoredData({ version: 3, business: { companyName: '우드랜드', phone: '031-000-0000' }, quoteSequence: { period: '2026-10', last: 41 } });
+    expect(data?.business).toEqual({ ...DEFAULT_BUSINESS, companyName: '우드랜드', phone: '031-000-0000' });
+    expect(data?.quoteSequence).toEqual({ period: '2026-10', last: 41 });
+    expect(data?.listQuote).toBeNull();
+  });
+
+  it('keeps the whole-list quote number from version 4', () => {
+    const listQuote = { itemIds: [1, 2], quoteNumber: '2026-10-0042' };
+    expect(migrateStoredData({ version: 4, listQuote })?.listQuote).toEqual(listQuote);
+    expect(migrateStoredData({ version: 4, listQuote: { itemIds: 'x' } })?.listQuote).toBeNull();
+  });
+
+  it('keeps "keep forever" and replaces invalid retention', () => {
+    expect(migrateStoredData({ version: 2, settings: { retentionDays: null } })?.settings.retentionDays).toBeNull();
+    expect(migrateStoredData({ version: 2, settings: { retentionDays: -1 } })?.settings.retentionDays).toBe(DEFAULT_SETTINGS.retentionDays);
+  });
+
+  it('treats a missing, zero, negative or fractional version as version 1', () => {
+    for (const version of [0, -2, 1.5, '3']) {
+      expect(migrateStoredData({ version, savedItems: [savedItem()] })).toEqual({ ...EMPTY, savedItems: [savedItem()], projects: [] });
+    }
+  });
+
+  it('refuses data from a newer schema', () => {
+    expect(migrateStoredData({ version: SCHEMA_VERSION + 1 })).toBeNull();
+  });
+});
+
+describe('expiry', () => {
+  it('counts whole days left and never expires pinned or keep-forever entries', () => {
+    expect(daysUntilExpiry({ timestamp: 0 }, 30, 10.5 * DAY)).toBe(20);
+    expect(daysUntilExpiry({ timestamp: 0 }, 7, 8 * DAY)).toBe(0);
+    expect(daysUntilExpiry({ timestamp: 0, pinned: true }, 7, 8 * DAY)).toBeNull();
+    expect(daysUntilExpiry({ timestamp: 0 }, null, 800 * DAY)).toBeNull();
+  });
+
+  it('expires once the retention period has passed', () => {
+    expect(isExpired({ timestamp: 0 }, 7, 7 * DAY - 1)).toBe(false);
+    expect(isExpired({ timestamp: 0 }, 7, 7 * DAY)).toBe(true);
+    expect(isExpired({ timestamp: 0, pinned: true }, 7, 7 * DAY)).toBe(false);
+  });
+
+  it('prunes expired items and projects but keeps pinned ones', () => {
+    const data: StoredData = {
+      ...EMPTY,
+      settings: { retentionDays: 7 },
+      savedItems: [savedItem({ id: 1 }), savedItem({ id: 2, pinned: true }), savedItem({ id: 3, timestamp: 5 * DAY })],
+      projects: [{ id: 4, title: '현장', items: [], timestamp: 0 }],
+    };
+    const pruned = pruneExpired(data, 8 * DAY);
+    expect(pruned.savedItems.map((i) => i.id)).toEqual([2, 3]);
+    expect(pruned.projects).toEqual([]);
+  });
+});
+
+describe('loadStoredData / saveStoredData', () => {
+  const memoryStorage = () => {
+    const values = new Map<string, string>();
+    return {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => void values.set(key, value),
+      removeItem: (key: string) => void values.delete(key),
+    };
+  };
+  const failingIndexedDb = {
+    open: () => {
+      const request: { error: Error; onerror?: () => void } = { error: new Error('private mode') };
+      setTimeout(() => request.onerror?.());
+      return request;
+    },
+  };
+
+  // Requests succeed on the next tick, like the real thing
+  const memoryIndexedDb = () => {
+    const records = new Map<string, unknown>();
+    const request = (result?: () => unknown) => {
+      const req: { result?: unknown; onsuccess?: () => void } = {};
+      setTimeout(() => {
+        req.result = result?.();
+        req.onsuccess?.();
+      });
+      return req;
+    };
+    const store = {
+      get: (key: string) => request(() => records.get(key)),
+      put: (value: unknown, key: string) => request(() => void records.set(key, value)),
+    };
+    const db = { transaction: () => ({ objectStore: () => store }) };
+    return { records, indexedDb: { open: () => request(() => db) } };
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('moves quotes saved while IndexedDB was unavailable into IndexedDB', async () => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.stubGlobal('indexedDB', failingIndexedDb);
+    const offline = await import('./storage');
+    await offline.saveStoredData({ ...(await offline.loadStoredData()), savedItems: [savedItem({ timestamp: Date.now() })] });
+    expect(localStorage.getItem(FALLBACK_KEY)).not.toBeNull();
+
+    // Next session, IndexedDB works again
+    vi.resetModules();
+    const { records, indexedDb } = memoryIndexedDb();
+    vi.stubGlobal('indexedDB', indexedDb);
+    const online = await import('./storage');
+    expect((await online.loadStoredData()).savedItems).toHaveLength(1);
+    expect(records.size).toBe(1);
+    expect(localStorage.getItem(FALLBACK_KEY)).toBeNull();
+    expect((await online.loadStoredData()).savedItems).toHaveLength(1);
+  });
+
+  it('falls back to localStorage, including version 1 data, when IndexedDB fails', async () => {
+    vi.stubGlobal('indexedDB', failingIndexedDb);
+    vi.stubGlobal('localStorage', memoryStorage());
+    localStorage.setItem(LEGACY_ITEMS_KEY, JSON.stringify([savedItem({ timestamp: Date.now() })]));
+
+    const data = await loadStoredData();
+    expect(data.savedItems).toHaveLength(1);
+
+    await saveStoredData({ ...data, savedItems: [] });
+    expect(localStorage.getItem(LEGACY_ITEMS_KEY)).toBeNull();
+    expect((await loadStoredData()).savedItems).toEqual([]);
+  });
+});
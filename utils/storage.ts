@@ -0,0 +1,222 @@
+import type { BusinessDetails, Project, SavedItem } from '../types';
+import { DEFAULT_BUSINESS, ListQuote, QuoteSequence } from './quote';
+
+// --- Types ---
+
+export interface StorageSettings {
+  /** Days a quote is kept after its last change; null keeps quotes forever. */
+  retentionDays: number | null;
+}
+
+/** Everything persisted for saved quotes. `version` is the schema version, see MIGRATIONS. */
+export interface StoredData {
+  version: number;
+  settings: StorageSettings;
+  business: BusinessDetails;
+  quoteSequence: QuoteSequence;
+  listQuote: ListQuote | null;
+  savedItems: SavedItem[];
+  projects: Project[];
+}
+
+/** Anything that expires: saved quotes and projects. */
+export interface Expirable {
+  timestamp: number;
+  pinned?: boolean;
+}
+
+// --- Constants ---
+
+export const SCHEMA_VERSION = 4;
+
+export const DEFAULT_SETTINGS: StorageSettings = { retentionDays: 30 };
+
+export const RETENTION_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 7, label: '7일' },
+  { days: 30, label: '30일' },
+  { days: 90, label: '90일' },
+  { days: 365, label: '1년' },
+  { days: null, label: '계속 보관' },
+];
+
+/** Version 1 lived in localStorage as two plain arrays under these keys. */
+export const LEGACY_ITEMS_KEY = 'deck-calculator-saved-items';
+export const LEGACY_PROJECTS_KEY = 'deck-calculator-projects';
+
+const DB_NAME = 'deck-calculator';
+const DB_STORE = 'store';
+const DB_RECORD_KEY = 'data';
+/** Used when IndexedDB is unavailable (e.g. some private browsing modes). */
+export const FALLBACK_KEY = 'deck-calculator-store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Migrations ---
+
+/**
+ * Upgrades data from schema version `key` to `key + 1`. Add an entry here
+ * whenever the persisted shape changes; never edit an existing one.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 → v2: add settings. v1 always dropped quotes after 7 days.
+  1: (data) => ({ ...data, settings: { ...DEFAULT_SETTINGS } }),
+  // v2 → v3: company details for quotes and the quote number sequence.
+  2: (data) => ({ ...data, business: { ...DEFAULT_BUSINESS }, quoteSequence: { period: '', last: 0 } }),
+  // v3 → v4: the whole-list PDF keeps its quote number.
+  3: (data) => ({ ...data, listQuote: null }),
+};
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+/**
+ * Brings stored data of any known version up to SCHEMA_VERSION. Data without a
+ * valid version number (a positive integer) is treated as version 1. Returns null for data written by a
+ * newer schema, which must not be overwritten.
+ */
+export const migrateStoredData = (raw: unknown): StoredData | null => {
+  let data: Record<string, unknown> = raw && typeof raw === 'object' ? { ...(raw as Record<string, unknown>) } : {};
+  let version = Number.isInteger(data.version) && (data.version as number) >= 1 ? (data.version as number) : 1;
+  if (version > SCHEMA_VERSION) return null;
+
+  while (version < SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+
+  const retention = (data.settings as Partial<StorageSettings> | undefined)?.retentionDays;
+  const sequence = (data.quoteSequence ?? {}) as Partial<QuoteSequence>;
+  const listQuote = data.listQuote as Partial<ListQuote> | null | undefined;
+  return {
+    version,
+    settings: {
+      retentionDays: retention === null || (typeof retention === 'number' && retention > 0) ? retention : DEFAULT_SETTINGS.retentionDays,
+    },
+    business: { ...DEFAULT_BUSINESS, ...(data.business as Partial<BusinessDetails> | undefined) },
+    quoteSequence: {
+      period: typeof sequence.period === 'string' ? sequence.period : '',
+      last: typeof sequence.last === 'number' && sequence.last >= 0 ? sequence.last : 0,
+    },
+    listQuote:
+      listQuote && typeof listQuote.quoteNumber === 'string' && Array.isArray(listQuote.itemIds)
+        ? { itemIds: listQuote.itemIds, quoteNumber: listQuote.quoteNumber }
+        : null,
+    savedItems: asArray<SavedItem>(data.savedItems),
+    projects: asArray<Project>(data.projects),
+  };
+};
+
+// --- Expiry ---
+
+/** Whole days left before `entry` expires, or null when it never does. */
+export const daysUntilExpiry = (entry: Expirable, retentionDays: number | null, now: number = Date.now()): number | null => {
+  if (entry.pinned || retentionDays === null) return null;
+  const expiresAt = entry.timestamp + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((expiresAt - now) / DAY_MS));
+};
+
+export const isExpired = (entry: Expirable, retentionDays: number | null, now: number = Date.now()) =>
+  !entry.pinned && retentionDays !== null && now - entry.timestamp >= retentionDays * DAY_MS;
+
+export const pruneExpired = (data: StoredData, now: number = Date.now()): StoredData => ({
+  ...data,
+  savedItems: data.savedItems.filter((item) => !isExpired(item, data.settings.retentionDays, now)),
+  projects: data.projects.filter((project) => !isExpired(project, data.settings.retentionDays, now)),
+});
+
+// --- Persistence ---
+
+// Set once IndexedDB fails (private mode, quota, a blocked upgrade); localStorage is used from then on
+let indexedDbFailed = false;
+
+const hasIndexedDb = () => typeof indexedDB !== 'undefined' && !indexedDbFailed;
+
+// One shared connection, so writes start in the order they were requested
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () =>
+  (dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const fail = (error: unknown) => {
+      dbPromise = null;
+      reject(error);
+    };
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => fail(request.error);
+    request.onblocked = () => fail(new Error('IndexedDB upgrade blocked by another tab'));
+  }));
+
+const runTransaction = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(DB_STORE, mode);
+    const request = action(transaction.objectStore(DB_STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+    // Quota errors abort the transaction rather than failing the request
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/** Runs `action` against IndexedDB, or returns `fallback()` when IndexedDB is missing or has failed. */
+const withIndexedDb = async <T>(action: () => Promise<T>, fallback: () => T): Promise<T> => {
+  if (hasIndexedDb()) {
+    try {
+      return await action();
+    } catch (e) {
+      console.error('IndexedDB unavailable, using localStorage', e);
+      indexedDbFailed = true;
+    }
+  }
+  return fallback();
+};
+
+const readFallbackData = (): unknown => JSON.parse(localStorage.getItem(FALLBACK_KEY) ?? 'null');
+
+const readLegacyData = (): Record<string, unknown> | null => {
+  const items = localStorage.getItem(LEGACY_ITEMS_KEY);
+  const projects = localStorage.getItem(LEGACY_PROJECTS_KEY);
+  if (items === null && projects === null) return null;
+  return { version: 1, savedItems: JSON.parse(items ?? '[]'), projects: JSON.parse(projects ?? '[]') };
+};
+
+/**
+ * Loads saved quotes, migrating older data (including the version 1
+ * localStorage arrays) and dropping whatever has expired. Quotes saved to
+ * localStorage while IndexedDB was unavailable are moved into IndexedDB once
+ * it works again.
+ */
+export const loadStoredData = async (): Promise<StoredData> => {
+  let raw = await withIndexedDb<unknown>(
+    () => runTransaction<unknown>('readonly', (store) => store.get(DB_RECORD_KEY)),
+    readFallbackData
+  );
+  if (raw == null && hasIndexedDb()) {
+    raw = readFallbackData();
+    if (raw !== null) {
+      const fallback = raw;
+      await withIndexedDb(
+        async () => {
+          await runTransaction('readwrite', (store) => store.put(fallback, DB_RECORD_KEY));
+          localStorage.removeItem(FALLBACK_KEY);
+        },
+        () => undefined
+      );
+    }
+  }
+  raw ??= readLegacyData();
+
+  const data = migrateStoredData(raw);
+  if (!data) throw new Error('저장된 데이터가 더 새로운 버전에서 만들어졌습니다.');
+  return pruneExpired(data);
+};
+
+/** Writes the whole store and, once that succeeds, removes the version 1 localStorage keys. */
+export const saveStoredData = async (data: StoredData) => {
+  await withIndexedDb(
+    () => runTransaction('readwrite', (store) => store.put(data, DB_RECORD_KEY)),
+    () => localStorage.setItem(FALLBACK_KEY, JSON.stringify(data))
+  );
+  localStorage.removeItem(LEGACY_ITEMS_KEY);
+  localStorage.removeItem(LEGACY_PROJECTS_KEY);
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { estimateSubstructure, recommendedJoistSpacing, squareFromArea, substructureLineItems } from './substructure';
+
+const PRICES = { joist: 10000, bearer: 20000, post: 5000 };
+const BASE = {
+  widthMm: 4000,
+  depthMm: 3000,
+  direction: 'width' as const,
+  joistSpacing: 400,
+  bearerSpacing: 1000,
+  postSpacing: 1000,
+  stockLength: 6000,
+  prices: PRICES,
+};
+
+describe('recommendedJoistSpacing', () => {
+  it('uses 300mm centres for 20T and thinner boards', () => {
+    expect(recommendedJoistSpacing(19)).toBe(300);
+    expect(recommendedJoistSpacing(20)).toBe(300);
+    expect(recommendedJoistSpacing(25)).toBe(400);
+  });
+});
+
+describe('squareFromArea', () => {
+  it('returns equal sides in mm', () => {
+    expect(squareFromArea(9)).toEqual({ widthMm: 3000, depthMm: 3000 });
+  });
+});
+
+describe('estimateSubstructure', () => {
+  it('counts members at both ends of each span', () => {
+    const est = estimateSubstructure(BASE)!;
+    // boards run along 4000 -> joists every 400 across it: 11 joists of 3000mm
+    expect(est.joists.count).toBe(11);
+    expect(est.joists.memberLength).toBe(3000);
+    expect(est.joists.pieces).toBe(Math.ceil((11 * 3000) / 6000));
+    // bearers every 1000 along the 3000 joist run: 4 bearers of 4000mm
+    expect(est.bearers.count).toBe(4);
+    expect(est.bearers.pieces).toBe(Math.ceil((4 * 4000) / 6000));
+    // 5 posts under each bearer
+    expect(est.posts.count).toBe(20);
+    expect(est.totalPrice).toBe(6 * 10000 + 3 * 20000 + 20 * 5000);
+  });
+
+  it('adds a member at the far edge when the span is not a whole number of spacings', () => {
+    const est = estimateSubstructure({ ...BASE, widthMm: 4200, depthMm: 3500 })!;
+    // 4200 / 400 = 10.5 -> 12 joists, the last one at the edge rather than 200mm short of it
+    expect(est.joists.count).toBe(12);
+    // 3500 / 1000 -> 5 bearers, each on 6 posts along 4200
+    expect(est.bearers.count).toBe(5);
+    expect(est.posts.count).toBe(30);
+  });
+
+  it('turns the frame with the board direction', () => {
+    const est = estimateSubstructure({ ...BASE, direction: 'depth' })!;
+    // 3000 / 400 = 7.5 -> 8 gaps, 9 joists
+    expect(est.joists.count).toBe(9);
+    expect(est.joists.memberLength).toBe(4000);
+    expect(est.bearers.count).toBe(5);
+  });
+
+  it('returns null for missing inputs', () => {
+    expect(estimateSubstructure({ ...BASE, widthMm: 0 })).toBeNull();
+    expect(estimateSubstructure({ ...BASE, joistSpacing: NaN })).toBeNull();
+  });
+
+  it('builds priced line items', () => {
+    const est = estimateSubstructure(BASE)!;
+    const lines = substructureLineItems(est, 'steel', 6000);
+    expect(lines.map((l) => l.label)).toEqual(['장선', '멍에', '기초/동바리']);
+    expect(lines.reduce((sum, l) => sum + l.amount, 0)).toBe(est.totalPrice);
+  });
+});
@@ -0,0 +1,116 @@
+import type { LineItem } from './lineItems';
+import type { BoardDirection } from './layout';
+
+// --- Types ---
+
+export type ProfileMaterial = 'steel' | 'aluminium';
+
+export interface SubstructurePrices {
+  /** Price per stock length of joist profile. */
+  joist: number;
+  /** Price per stock length of bearer profile. */
+  bearer: number;
+  /** Price per post including its footing. */
+  post: number;
+}
+
+export interface SubstructureInput {
+  widthMm: number;
+  depthMm: number;
+  /** Board running direction; joists run across the boards. */
+  direction: BoardDirection;
+  joistSpacing: number;
+  bearerSpacing: number;
+  postSpacing: number;
+  stockLength: number;
+  prices: SubstructurePrices;
+}
+
+export interface MemberEstimate {
+  /** Members laid out on the deck. */
+  count: number;
+  /** Length of each member in mm (0 for posts). */
+  memberLength: number;
+  /** Stock lengths (or posts) to buy. */
+  pieces: number;
+  amount: number;
+}
+
+export interface SubstructureEstimate {
+  joists: MemberEstimate;
+  bearers: MemberEstimate;
+  posts: MemberEstimate;
+  totalPrice: number;
+}
+
+// --- Constants ---
+
+export const JOIST_SPACING_OPTS = [300, 400];
+
+export const MATERIAL_LABELS: Record<ProfileMaterial, string> = {
+  steel: '아연도 각관',
+  aluminium: '알루미늄',
+};
+
+export const SUBSTRUCTURE_DEFAULTS: Record<ProfileMaterial, SubstructurePrices & { stockLength: number }> = {
+  steel: { joist: 18000, bearer: 26000, post: 15000, stockLength: 6000 },
+  aluminium: { joist: 32000, bearer: 45000, post: 22000, stockLength: 6000 },
+};
+
+// --- Calculations ---
+
+/** Thin boards sag between joists, so anything 20T or thinner gets 300mm centres. */
+export const recommendedJoistSpacing = (thickness: number) => (thickness > 0 && thickness <= 20 ? 300 : 400);
+
+/**
+ * Side lengths of a square deck with the given area, for estimating the frame
+ * when only an area (not the actual dimensions) is known.
+ */
+export const squareFromArea = (areaM2: number) => {
+  const side = Math.sqrt(Math.max(0, areaM2)) * 1000;
+  return { widthMm: side, depthMm: side };
+};
+
+/** Members at `spacing` centres or closer across `span`, so the far edge is always supported. */
+export const membersAlong = (span: number, spacing: number) => Math.ceil(span / spacing) + 1;
+
+/**
+ * Estimates joists, bearers and posts for a rectangular deck.
+ *
+ * Joists run across the boards at `joistSpacing` centres, bearers run under
+ * the joists at `bearerSpacing` and each bearer is carried by posts at
+ * `postSpacing`, with a member at both ends of every span. Profile is bought
+ * in `stockLength` pieces and joined over supports, so pieces are counted
+ * from the total run rather than per member. Returns null for a missing
+ * dimension or spacing.
+ */
+export const estimateSubstructure = (input: SubstructureInput): SubstructureEstimate | null => {
+  const { widthMm, depthMm, direction, joistSpacing, bearerSpacing, postSpacing, stockLength, prices } = input;
+  if (![widthMm, depthMm, joistSpacing, bearerSpacing, postSpacing, stockLength].every((v) => v > 0)) return null;
+
+  const boardRun = direction === 'width' ? widthMm : depthMm;
+  const joistRun = direction === 'width' ? depthMm : widthMm;
+
+  const joistCount = membersAlong(boardRun, joistSpacing);
+  const joistPieces = Math.ceil((joistCount * joistRun) / stockLength);
+
+  const bearerCount = membersAlong(joistRun, bearerSpacing);
+  const bearerPieces = Math.ceil((bearerCount * boardRun) / stockLength);
+
+  const postCount = bearerCount * membersAlong(boardRun, postSpacing);
+
+  const joists = { count: joistCount, memberLength: joistRun, pieces: joistPieces, amount: joistPieces * prices.joist };
+  const bearers = { count: bearerCount, memberLength: boardRun, pieces: bearerPieces, amount: bearerPieces * prices.bearer };
+  const posts = { count: postCount, memberLength: 0, pieces: postCount, amount: postCount * prices.post };
+
+  return { joists, bearers, posts, totalPrice: joists.amount + bearers.amount + posts.amount };
+};
+
+export const substructureLineItems = (estimate: SubstructureEstimate, material: ProfileMaterial, stockLength: number): LineItem[] => {
+  const stock = `${MATERIAL_LABELS[material]} ${stockLength.toLocaleString()}mm`;
+  return [
+    { label: '장선', detail: `${estimate.joists.pieces.toLocaleString()}본 (${stock})`, amount: estimate.joists.amount },
+    { label: '멍에', detail: `${estimate.bearers.pieces.toLocaleString()}본 (${stock})`, amount: estimate.bearers.amount },
+    { label: '기초/동바리', detail: `${estimate.posts.pieces.toLocaleString()}개소`, amount: estimate.posts.amount },
+  ];
+};
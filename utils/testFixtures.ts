@@ -0,0 +1,15 @@
+import type { SavedItem } from '../types';
+
+/** A saved 10-board quote of 25T 150×3000 at 15,000원, with `overrides` applied. */
+export const savedItem = (overrides: Partial<SavedItem> = {}): SavedItem => ({
+  id: 1,
+  title: '25T 150x3000',
+  specs: { t: 25, w: 150, l: 3000 },
+  inputLabel: '10장',
+  totalQuantity: 10,
+  totalAreaM2: 4.5,
+  totalPrice: 150000,
+  unitPrice: 15000,
+  timestamp: 0,
+  ...overrides,
+});
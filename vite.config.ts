@@ -1,7 +1,37 @@
+import crypto from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Emits sw.js with the list of built files to precache, so the app works
+ * offline after the first visit. The version changes whenever any of those
+ * files does, which makes browsers install the new worker.
+ */
+const serviceWorker = (): Plugin => ({
+  name: 'deck-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const publicFiles = fs.existsSync(publicDir) ? fs.readdirSync(publicDir) : [];
+    const files = [...Object.keys(bundle), ...publicFiles].filter(file => !file.endsWith('.map'));
+
+    const hash = crypto.createHash('sha256');
+    files.forEach(file => {
+      const chunk = bundle[file];
+      hash.update(file);
+      if (!chunk) hash.update(fs.readFileSync(path.join(publicDir, file)));
+      else hash.update(chunk.type === 'chunk' ? chunk.code : chunk.source);
+    });
+
+    const precache = { version: hash.digest('hex').slice(0, 12), urls: ['/', ...files.map(file => `/${file}`)] };
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8').replace('self.__PRECACHE__', JSON.stringify(precache));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +39,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)